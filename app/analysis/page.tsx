@@ -4,15 +4,35 @@ import { useState, useEffect } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { analyzeWebsite } from '@/services/analyzeService';
+import { DOCUMENT_TYPES } from '@/services/documentTypeService';
 import { AnalysisResult } from '@/types';
 import ProgressBar from '@/components/ProgressBar';
 import SectionResults from '@/components/SectionResults';
 import OverallScore from '@/components/OverallScore';
+import TrackingResults from '@/components/TrackingResults';
+import ConsentScanResults from '@/components/ConsentScanResults';
+import ConsentBannerResults from '@/components/ConsentBannerResults';
+import VendorInventoryResults from '@/components/VendorInventoryResults';
+import StorageAccessResults from '@/components/StorageAccessResults';
+import TcfResults from '@/components/TcfResults';
+import DataTransferResults from '@/components/DataTransferResults';
+import CookieDeclarationResults from '@/components/CookieDeclarationResults';
+import FormsResults from '@/components/FormsResults';
+import SecurityResults from '@/components/SecurityResults';
+import AccessibilityResults from '@/components/AccessibilityResults';
+import EvidenceResults from '@/components/EvidenceResults';
+import CrawlResults from '@/components/CrawlResults';
+import ProfileComparisonResults from '@/components/ProfileComparisonResults';
+
+// Index of the first block after the document sections, blocks being numbered in render order
+const DOCUMENTS_END = 4 + DOCUMENT_TYPES.length;
 
 export default function AnalysisPage() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const url = searchParams.get('url');
+  const evidence = searchParams.get('evidence') === '1';
+  const profiles = searchParams.get('profiles');
   
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -50,7 +70,7 @@ export default function AnalysisPage() {
         }, 1000);
         
         // Analyze website
-        const data = await analyzeWebsite(url);
+        const data = await analyzeWebsite(url, { evidence, profiles: profiles ? profiles.split(',') : undefined });
         
         clearInterval(progressInterval);
         setProgress(100);
@@ -63,7 +83,7 @@ export default function AnalysisPage() {
     };
 
     fetchAnalysis();
-  }, [url]);
+  }, [url, evidence, profiles]);
 
   // Fonction utilitaire pour randomiser la position verticale
   const getRandomTop = (index: number) => {
@@ -144,30 +164,96 @@ export default function AnalysisPage() {
         <>
           <DecoratedBlock index={1} >
             <OverallScore score={results.overallScore} />
+            {results.fetcher === 'static' && (
+              <p className="text-sm text-center text-amber-700">
+                The site was read from its static HTML without a browser: content rendered by JavaScript may be
+                missing, and the consent and tracking checks were skipped.
+              </p>
+            )}
+            {results.profile && (
+              <p className="text-sm text-center text-gray-600 dark:text-gray-300">
+                Visited as: {results.profile.name} ({results.profile.locale}, {results.profile.timezoneId},{' '}
+                {results.profile.viewport.width}×{results.profile.viewport.height})
+              </p>
+            )}
           </DecoratedBlock>
 
-          {results.sections.termsOfService && (
+          {results.preConsentTracking && (
             <DecoratedBlock index={2}>
-              <SectionResults 
-                section={results.sections.termsOfService} 
-                title="Terms of Service"
-              />
+              <TrackingResults tracking={results.preConsentTracking} />
             </DecoratedBlock>
           )}
-          {results.sections.privacyPolicy && (
+          {results.consentScan && (
             <DecoratedBlock index={3}>
-              <SectionResults 
-                section={results.sections.privacyPolicy} 
-                title="Privacy Policy"
-              />
+              <ConsentScanResults scan={results.consentScan} />
+            </DecoratedBlock>
+          )}
+          {DOCUMENT_TYPES.map((type, index) => {
+            const section = results.sections[type.key];
+            return section && (
+              <DecoratedBlock key={type.key} index={4 + index}>
+                <SectionResults section={section} documentType={type} />
+              </DecoratedBlock>
+            );
+          })}
+          {results.sections.consentBanner && (
+            <DecoratedBlock index={DOCUMENTS_END}>
+              <ConsentBannerResults section={results.sections.consentBanner} />
+            </DecoratedBlock>
+          )}
+          {results.profileComparison && (
+            <DecoratedBlock index={DOCUMENTS_END + 1}>
+              <ProfileComparisonResults comparison={results.profileComparison} />
+            </DecoratedBlock>
+          )}
+          {results.storageAccess && (
+            <DecoratedBlock index={DOCUMENTS_END + 2}>
+              <StorageAccessResults report={results.storageAccess} />
+            </DecoratedBlock>
+          )}
+          {results.tcf && (
+            <DecoratedBlock index={DOCUMENTS_END + 3}>
+              <TcfResults tcf={results.tcf} />
+            </DecoratedBlock>
+          )}
+          {results.crawl && (
+            <DecoratedBlock index={DOCUMENTS_END + 4}>
+              <CrawlResults report={results.crawl} login={results.login} />
+            </DecoratedBlock>
+          )}
+          {results.vendorInventory && (
+            <DecoratedBlock index={DOCUMENTS_END + 5}>
+              <VendorInventoryResults inventory={results.vendorInventory} />
+            </DecoratedBlock>
+          )}
+          {results.sections.internationalTransfers && (
+            <DecoratedBlock index={DOCUMENTS_END + 6}>
+              <DataTransferResults section={results.sections.internationalTransfers} />
+            </DecoratedBlock>
+          )}
+          {results.sections.cookieDeclaration && (
+            <DecoratedBlock index={DOCUMENTS_END + 7}>
+              <CookieDeclarationResults section={results.sections.cookieDeclaration} />
+            </DecoratedBlock>
+          )}
+          {results.sections.forms && (
+            <DecoratedBlock index={DOCUMENTS_END + 8}>
+              <FormsResults section={results.sections.forms} />
+            </DecoratedBlock>
+          )}
+          {results.sections.security && (
+            <DecoratedBlock index={DOCUMENTS_END + 9}>
+              <SecurityResults section={results.sections.security} />
+            </DecoratedBlock>
+          )}
+          {results.sections.accessibility && (
+            <DecoratedBlock index={DOCUMENTS_END + 10}>
+              <AccessibilityResults section={results.sections.accessibility} />
             </DecoratedBlock>
           )}
-          {results.sections.cookiePolicy && (
-            <DecoratedBlock index={4}>
-              <SectionResults 
-                section={results.sections.cookiePolicy} 
-                title="Cookie Policy"
-              />
+          {results.evidence && (
+            <DecoratedBlock index={DOCUMENTS_END + 11}>
+              <EvidenceResults evidence={results.evidence} />
             </DecoratedBlock>
           )}
           <div className="mt-12 text-center">
@@ -1,6 +1,18 @@
 import { NextResponse } from 'next/server';
-import { scrapeWebsite } from '@/services/scrapingService';
-import { AnalysisResult, ComplianceIssue } from '@/types';
+import { FETCHER_PREFERENCES, FetcherPreference, scrapeWebsite } from '@/services/scrapingService';
+import { checkScanTarget } from '@/services/urlSafetyService';
+import { checkCrawlSettings } from '@/services/crawlService';
+import { checkScanProfiles, getScanProfile } from '@/services/profileService';
+import { checkLoginScript } from '@/services/loginService';
+import { checkRobotsAccess } from '@/services/politenessService';
+import { DOCUMENT_TYPES } from '@/services/documentTypeService';
+import { analyzeDataTransfers } from '@/services/dataTransferService';
+import { analyzeCookieDeclaration } from '@/services/cookieDeclarationService';
+import { analyzeForms } from '@/services/formService';
+import { analyzeSecurity } from '@/services/securityService';
+import { analyzeAccessibility } from '@/services/accessibilityService';
+import { deleteEvidenceBundle } from '@/services/evidenceService';
+import { AnalysisResult, ComplianceIssue, DocumentTypeDefinition } from '@/types';
 import axios from 'axios';
 import * as dotenv from 'dotenv';
 
@@ -91,8 +103,10 @@ async function callOpenAIWithRetry(messages: {role: string, content: string}[],
 }
 
 export async function POST(request: Request) {
+  // A bundle whose analysis fails is never handed out, so it is not kept either
+  let evidenceId: string | null = null;
   try {
-    const { url } = await request.json();
+    const { url, fetcher, evidence, crawl, profiles, login } = await request.json();
     
     if (!url) {
       return NextResponse.json(
@@ -110,6 +124,56 @@ export async function POST(request: Request) {
         { status: 400 }
       );
     }
+
+    // Never let a scan reach the server's own network: localhost, private ranges, cloud metadata...
+    const unsafeReason = await checkScanTarget(url);
+    if (unsafeReason) {
+      return NextResponse.json(
+        { error: `This URL can't be analyzed: ${unsafeReason}` },
+        { status: 400 }
+      );
+    }
+    
+    // Sites asking crawlers to stay away are only scanned when the deployment is authorised to audit them
+    const robotsReason = await checkRobotsAccess(url);
+    if (robotsReason) {
+      return NextResponse.json(
+        { error: `This URL can't be analyzed: ${robotsReason}` },
+        { status: 403 }
+      );
+    }
+    
+    if (fetcher !== undefined && !FETCHER_PREFERENCES.includes(fetcher)) {
+      return NextResponse.json(
+        { error: `Invalid fetcher, expected one of: ${FETCHER_PREFERENCES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    
+    const crawlError = checkCrawlSettings(crawl);
+    if (crawlError) {
+      return NextResponse.json(
+        { error: `Invalid crawl settings: ${crawlError}` },
+        { status: 400 }
+      );
+    }
+    
+    const profilesError = checkScanProfiles(profiles);
+    if (profilesError) {
+      return NextResponse.json(
+        { error: `Invalid profiles: ${profilesError}` },
+        { status: 400 }
+      );
+    }
+    
+    // Login scripts only name their secrets, whose values stay in the server's environment
+    const loginError = checkLoginScript(login);
+    if (loginError) {
+      return NextResponse.json(
+        { error: `Invalid login script: ${loginError}` },
+        { status: 400 }
+      );
+    }
     
     if (!OPENAI_API_KEY) {
       return NextResponse.json(
@@ -118,61 +182,131 @@ export async function POST(request: Request) {
       );
     }
 
-    // Use real scraping with Playwright
-    const scrapedData = await scrapeWebsite(url);
-    
-    // Get the document texts
-    const termsOfService = scrapedData.termsOfService || '';
-    const privacyPolicy = scrapedData.privacyPolicy || '';
-    const cookiePolicy = scrapedData.cookiePolicy || '';
+    // Render the site with Playwright, or download its static HTML when no browser is available
+    const scrapedData = await scrapeWebsite(url, fetcher as FetcherPreference | undefined, {
+      evidence: evidence === true,
+      crawl,
+      profiles: (profiles as string[] | undefined)?.map(id => getScanProfile(id)!),
+      login
+    });
     
     // Create the analysis result
     const result: AnalysisResult = {
       url,
       timestamp: new Date().toISOString(),
       overallScore: 0, // Will be calculated based on section scores
+      fetcher: scrapedData.fetcher,
+      profile: scrapedData.profile,
       sections: {}
     };
     
+    if (scrapedData.preConsentTracking) {
+      result.preConsentTracking = scrapedData.preConsentTracking;
+    }
+    
+    if (scrapedData.consentScan) {
+      result.consentScan = scrapedData.consentScan;
+    }
+    
+    if (scrapedData.vendorInventory) {
+      result.vendorInventory = scrapedData.vendorInventory;
+    }
+    
+    if (scrapedData.storageAccess) {
+      result.storageAccess = scrapedData.storageAccess;
+    }
+    
+    if (scrapedData.tcf) {
+      result.tcf = scrapedData.tcf;
+    }
+    
+    if (scrapedData.evidence) {
+      result.evidence = scrapedData.evidence;
+      evidenceId = scrapedData.evidence.id;
+    }
+    
+    if (scrapedData.crawl) {
+      result.crawl = scrapedData.crawl;
+    }
+    
+    if (scrapedData.profileComparison) {
+      result.profileComparison = scrapedData.profileComparison;
+    }
+    
+    if (scrapedData.login) {
+      result.login = scrapedData.login;
+    }
+    
     // Analyze documents using OpenAI
-    if (termsOfService) {
-      const tosAnalysis = await analyzeContentWithOpenAI(termsOfService, 'Terms of Service');
-      result.sections.termsOfService = {
-        sectionName: 'Terms of Service',
-        sectionText: termsOfService,
-        compliant: tosAnalysis.score >= 80,
-        score: tosAnalysis.score,
-        issues: tosAnalysis.issues
+    for (const type of DOCUMENT_TYPES) {
+      const text = scrapedData.documents[type.key];
+      if (!text) continue;
+      
+      const analysis = await analyzeContentWithOpenAI(text, type);
+      const source = scrapedData.documentSources[type.key];
+      result.sections[type.key] = {
+        sectionName: type.title,
+        sectionText: text,
+        compliant: analysis.score >= 80,
+        score: analysis.score,
+        issues: analysis.issues,
+        sourceUrl: source?.url,
+        discoveryMethod: source?.discoveryMethod,
+        sourceFormat: source?.format,
+        extractionMethod: source?.extractionMethod,
+        outline: source?.outline
       };
     }
     
-    if (privacyPolicy) {
-      const privacyAnalysis = await analyzeContentWithOpenAI(privacyPolicy, 'Privacy Policy');
-      result.sections.privacyPolicy = {
-        sectionName: 'Privacy Policy',
-        sectionText: privacyPolicy,
-        compliant: privacyAnalysis.score >= 80,
-        score: privacyAnalysis.score,
-        issues: privacyAnalysis.issues
-      };
+    if (scrapedData.consentBanner) {
+      result.sections.consentBanner = scrapedData.consentBanner;
     }
     
-    if (cookiePolicy) {
-      const cookieAnalysis = await analyzeContentWithOpenAI(cookiePolicy, 'Cookie Policy');
-      result.sections.cookiePolicy = {
-        sectionName: 'Cookie Policy',
-        sectionText: cookiePolicy,
-        compliant: cookieAnalysis.score >= 80,
-        score: cookieAnalysis.score,
-        issues: cookieAnalysis.issues
-      };
+    // Cross-references the vendors' countries with the safeguards the privacy policy states
+    if (scrapedData.vendorInventory) {
+      // Placeholders for a missing or unreadable policy are not scanned for safeguards
+      const privacyPolicy = scrapedData.documentSources.privacyPolicy?.extractionMethod ? scrapedData.documents.privacyPolicy ?? null : null;
+      result.sections.internationalTransfers = analyzeDataTransfers(scrapedData.vendorInventory, privacyPolicy);
+    }
+    
+    // Checks the cookie policy's list against the cookies set in every consent state (eprivacy-4)
+    if (scrapedData.consentScan && scrapedData.documents.cookiePolicy) {
+      const observedCookies = scrapedData.consentScan.states.flatMap(state => state.cookies);
+      result.sections.cookieDeclaration = analyzeCookieDeclaration(scrapedData.documents.cookiePolicy, observedCookies);
+    }
+    
+    // Audits the data-collection forms of the homepage and the contact, sign-up and newsletter pages
+    if (scrapedData.forms) {
+      const forms = analyzeForms(scrapedData.forms, url);
+      if (forms.details.forms.length > 0) result.sections.forms = forms;
+    }
+    
+    // Technical measures protecting the data in transit (GDPR Art. 32), seen on the consent scan's first load
+    if (scrapedData.security) {
+      result.sections.security = analyzeSecurity(scrapedData.security);
+    }
+    
+    // WCAG 2.1 AA audit of the homepage, and whether an accessibility statement was found
+    if (scrapedData.accessibility) {
+      result.sections.accessibility = analyzeAccessibility(scrapedData.accessibility, {
+        // Placeholders stand in for documents that were missing or failed to load, only extracted ones count
+        found: !!scrapedData.documentSources.accessibilityStatement?.extractionMethod,
+        url: scrapedData.documentSources.accessibilityStatement?.url
+      });
     }
     
     // Calculate overall score as average of section scores
     const scores: number[] = [];
-    if (result.sections.termsOfService) scores.push(result.sections.termsOfService.score);
-    if (result.sections.privacyPolicy) scores.push(result.sections.privacyPolicy.score);
-    if (result.sections.cookiePolicy) scores.push(result.sections.cookiePolicy.score);
+    DOCUMENT_TYPES.forEach(type => {
+      const section = result.sections[type.key];
+      if (section) scores.push(section.score);
+    });
+    if (result.sections.consentBanner) scores.push(result.sections.consentBanner.score);
+    if (result.sections.internationalTransfers) scores.push(result.sections.internationalTransfers.score);
+    if (result.sections.cookieDeclaration) scores.push(result.sections.cookieDeclaration.score);
+    if (result.sections.forms) scores.push(result.sections.forms.score);
+    if (result.sections.security) scores.push(result.sections.security.score);
+    if (result.sections.accessibility) scores.push(result.sections.accessibility.score);
     
     // Calculate average or default to 0 if no scores
     result.overallScore = scores.length ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0;
@@ -180,6 +314,9 @@ export async function POST(request: Request) {
     return NextResponse.json(result);
   } catch (error) {
     console.error('Analysis error:', error);
+    if (evidenceId) {
+      await deleteEvidenceBundle(evidenceId).catch(err => console.error('Error deleting the evidence bundle:', err));
+    }
     return NextResponse.json(
       { error: 'Failed to analyze website', details: String(error) },
       { status: 500 }
@@ -187,66 +324,18 @@ export async function POST(request: Request) {
   }
 }
 
-// Analyze compliance using OpenAI
-async function analyzeContentWithOpenAI(text: string, documentType: string): Promise<{ score: number, issues: ComplianceIssue[] }> {
+// Analyze compliance using OpenAI, focusing on the key areas of the document type
+async function analyzeContentWithOpenAI(text: string, type: DocumentTypeDefinition): Promise<{ score: number, issues: ComplianceIssue[] }> {
   // Truncate text more aggressively to reduce token usage and processing time
   const truncatedText = text.length > 6000 ? text.substring(0, 6000) + '...[truncated]' : text;
+  const documentType = type.title;
   
-  let prompt = '';
-  let systemPrompt = '';
+  const systemPrompt = `Analyze the provided ${type.title} for compliance issues and return JSON only.`;
   
-  if (documentType === 'Terms of Service') {
-    systemPrompt = `Analyze the provided Terms of Service for legal compliance and return JSON only.`;
-    
-    prompt = `Analyze the terms of service briefly for key compliance issues only.
-
-Key areas: clear language, liability, IP rights, termination, governing law.
-
-Return JSON only:
-{
-  "score": [0-100 compliance score],
-  "issues": [
-    {
-      "ruleId": "issue-id",
-      "ruleName": "Issue name",
-      "severity": "high/medium/low",
-      "description": "Brief issue description",
-      "recommendation": "Brief recommendation"
-    }
-  ]
-}
-
-Terms:
-${truncatedText}`;
-  } else if (documentType === 'Privacy Policy') {
-    systemPrompt = `Analyze the provided Privacy Policy for compliance issues and return JSON only.`;
-    
-    prompt = `Analyze the privacy policy briefly for key compliance issues only.
-
-Key areas: data purpose, data rights, legal basis, retention, sharing.
-
-Return JSON only:
-{
-  "score": [0-100 compliance score],
-  "issues": [
-    {
-      "ruleId": "issue-id",
-      "ruleName": "Issue name",
-      "severity": "high/medium/low",
-      "description": "Brief issue description", 
-      "recommendation": "Brief recommendation"
-    }
-  ]
-}
-
-Policy:
-${truncatedText}`;
-  } else if (documentType === 'Cookie Policy') {
-    systemPrompt = `Analyze the provided Cookie Policy for compliance issues and return JSON only.`;
-    
-    prompt = `Analyze the cookie policy briefly for key compliance issues only.
+  const prompt = `Analyze the ${type.name} briefly for key compliance issues only.
+${type.description}
 
-Key areas: cookie types, purposes, duration, third-parties, opt-out options.
+Key areas: ${type.keyAreas}.
 
 Return JSON only:
 {
@@ -262,9 +351,8 @@ Return JSON only:
   ]
 }
 
-Policy:
+Document:
 ${truncatedText}`;
-  }
   
   console.log(`Analyzing ${documentType} with OpenAI...`);
   
@@ -312,7 +400,7 @@ ${truncatedText}`;
       
       const issues: ComplianceIssue[] = Array.isArray(analysisResult.issues) ? 
         analysisResult.issues.slice(0, 10).map((issue: any) => ({
-          ruleId: String(issue.ruleId || `${documentType.toLowerCase()}-issue`),
+          ruleId: String(issue.ruleId || `${type.key}-issue`),
           ruleName: String(issue.ruleName || 'Compliance Issue'),
           severity: ['high', 'medium', 'low'].includes(issue.severity) ? 
             issue.severity as 'high' | 'medium' | 'low' : 'medium',
@@ -327,7 +415,7 @@ ${truncatedText}`;
       return { 
         score: 50, 
         issues: [{ 
-          ruleId: `${documentType.toLowerCase()}-parse-error`, 
+          ruleId: `${type.key}-parse-error`, 
           ruleName: 'Analysis Error',
           severity: 'medium',
           description: 'Unable to analyze the document properly',
@@ -340,7 +428,7 @@ ${truncatedText}`;
     return {
       score: 40,
       issues: [{
-        ruleId: `${documentType.toLowerCase()}-api-error`,
+        ruleId: `${type.key}-api-error`,
         ruleName: 'Analysis Error',
         severity: 'high',
         description: `Failed to analyze ${documentType}: ${error.message}`,
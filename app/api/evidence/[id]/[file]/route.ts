@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { readEvidenceFile } from '@/services/evidenceService';
+
+// Serves a single file of an evidence bundle, as listed in its manifest
+export async function GET(request: Request, { params }: { params: Promise<{ id: string; file: string }> }) {
+  try {
+    const { id, file } = await params;
+    const evidence = await readEvidenceFile(id, file);
+    if (!evidence) {
+      return NextResponse.json({ error: 'Evidence file not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(evidence.content), {
+      headers: {
+        'Content-Type': evidence.contentType,
+        'Content-Disposition': `attachment; filename="${file}"`,
+        // Captured pages are served as files, never rendered with this origin's privileges
+        'Content-Security-Policy': 'sandbox'
+      }
+    });
+  } catch (error) {
+    console.error('Evidence download error:', error);
+    return NextResponse.json({ error: 'Failed to read the evidence file' }, { status: 500 });
+  }
+}
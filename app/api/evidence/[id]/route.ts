@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { createEvidenceArchive } from '@/services/evidenceService';
+
+// Downloads an evidence bundle as a .tar.gz archive of its files and manifest
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const archive = await createEvidenceArchive(id);
+    if (!archive) {
+      return NextResponse.json({ error: 'Evidence bundle not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="evidence-${id}.tar.gz"`
+      }
+    });
+  } catch (error) {
+    console.error('Evidence download error:', error);
+    return NextResponse.json({ error: 'Failed to read the evidence bundle' }, { status: 500 });
+  }
+}
@@ -3,12 +3,23 @@
 import { useState } from 'react';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import scanProfiles from '@/lib/scan-profiles.json';
+
+const PROFILES = Object.entries(scanProfiles).map(([id, profile]) => ({ id, name: profile.name }));
+
+// The API scans at most 4 profiles at once, the selected one included
+const MAX_COMPARED_PROFILES = 3;
 
 export default function Home() {
   const [url, setUrl] = useState<string>('');
   const [error, setError] = useState<string>('');
+  const [evidence, setEvidence] = useState<boolean>(false);
+  const [profile, setProfile] = useState<string>(PROFILES[0].id);
+  const [compareWith, setCompareWith] = useState<string[]>([]);
   const router = useRouter();
 
+  const compared = compareWith.filter(id => id !== profile);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -27,7 +38,8 @@ export default function Home() {
       }
       
       // Navigate to analysis page
-      router.push(`/analysis?url=${encodeURIComponent(url)}`);
+      const profiles = [profile].concat(compared).join(',');
+      router.push(`/analysis?url=${encodeURIComponent(url)}&profiles=${profiles}${evidence ? '&evidence=1' : ''}`);
     } catch (e) {
       setError('Please enter a valid URL');
     }
@@ -99,6 +111,47 @@ export default function Home() {
                   </div>
                   {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
                 </div>
+                <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm md:text-base font-medium text-gray-700">
+                  <label htmlFor="profile">Visit as</label>
+                  <select
+                    id="profile"
+                    className="border-2 border-gray-900 rounded bg-white px-2 py-1"
+                    value={profile}
+                    onChange={(e) => setProfile(e.target.value)}
+                  >
+                    {PROFILES.map((option) => (
+                      <option key={option.id} value={option.id}>{option.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <fieldset className="text-sm text-gray-700">
+                  <legend className="font-medium mb-1">Compare the consent checks with</legend>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1">
+                    {PROFILES.filter((option) => option.id !== profile).map((option) => (
+                      <label key={option.id} className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          className="w-4 h-4 accent-blue-500"
+                          checked={compared.includes(option.id)}
+                          disabled={!compared.includes(option.id) && compared.length >= MAX_COMPARED_PROFILES}
+                          onChange={(e) => setCompareWith(e.target.checked
+                            ? compareWith.concat(option.id)
+                            : compareWith.filter(id => id !== option.id))}
+                        />
+                        {option.name}
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+                <label className="flex items-center gap-2 text-sm md:text-base font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4 border-2 border-gray-900 accent-blue-500"
+                    checked={evidence}
+                    onChange={(e) => setEvidence(e.target.checked)}
+                  />
+                  Save screenshots, network traffic and policy pages as an evidence bundle
+                </label>
               </form>
             </div>
           </div>
@@ -0,0 +1,113 @@
+import React from 'react';
+import { AccessibilityAnalysis, AccessibilityImpact } from '@/types';
+import IssueList from './IssueList';
+
+interface AccessibilityResultsProps {
+  section: AccessibilityAnalysis;
+}
+
+const IMPACT_CLASSES: Record<AccessibilityImpact, string> = {
+  critical: 'text-red-600 dark:text-red-400',
+  serious: 'text-amber-700 dark:text-amber-400',
+  moderate: '',
+  minor: 'text-gray-500'
+};
+
+const AccessibilityResults: React.FC<AccessibilityResultsProps> = ({ section }) => {
+  const { details } = section;
+  const { keyboard } = details;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Accessibility</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        WCAG 2.1 AA checks of {details.pageUrl} with {details.engine}, and a keyboard walk through the page.
+        Automated checks find a part of the barriers only.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm">
+          <h3 className="font-medium mb-2">Keyboard</h3>
+          <ul className="space-y-1">
+            <li>Focusable elements: {keyboard.focusableCount}</li>
+            <li>Reached with Tab: {keyboard.tabStops}</li>
+            <li>Keyboard trap: {keyboard.trap || 'None'}</li>
+            <li>Without a visible focus indicator: {keyboard.withoutIndicator.length}</li>
+          </ul>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm">
+          <h3 className="font-medium mb-2">Accessibility statement</h3>
+          {details.statementFound ? (
+            <p>
+              Published
+              {details.statementUrl && (
+                <>
+                  {' at '}
+                  <a href={details.statementUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+                    {details.statementUrl}
+                  </a>
+                </>
+              )}
+            </p>
+          ) : (
+            <p className="text-red-600 dark:text-red-400">Not found</p>
+          )}
+        </div>
+      </div>
+
+      {details.criteria.length > 0 ? (
+        <div className="mb-6 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Success criterion</th>
+                <th className="py-2 pr-4 font-medium">Check</th>
+                <th className="py-2 pr-4 font-medium">Impact</th>
+                <th className="py-2 font-medium">Elements</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.criteria.flatMap((finding) => finding.violations.map((violation, index) => (
+                <tr key={`${finding.criterion}-${violation.ruleId}`} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                  <td className="py-2 pr-4">
+                    {index === 0 && `${finding.level ? `${finding.criterion} ` : ''}${finding.name}${finding.level ? ` (${finding.level})` : ''}`}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {violation.helpUrl ? (
+                      <a href={violation.helpUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+                        {violation.description}
+                      </a>
+                    ) : violation.description}
+                  </td>
+                  <td className={`py-2 pr-4 ${IMPACT_CLASSES[violation.impact]}`}>{violation.impact}</td>
+                  <td className="py-2 font-mono text-xs break-all" title={violation.targets.join('\n')}>{violation.nodeCount}</td>
+                </tr>
+              )))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mb-6 text-sm text-gray-600 dark:text-gray-300">No automated check failed.</p>
+      )}
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default AccessibilityResults;
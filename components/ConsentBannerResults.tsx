@@ -0,0 +1,81 @@
+import React from 'react';
+import { ConsentBannerAnalysis } from '@/types';
+import IssueList from './IssueList';
+
+interface ConsentBannerResultsProps {
+  section: ConsentBannerAnalysis;
+}
+
+const ConsentBannerResults: React.FC<ConsentBannerResultsProps> = ({ section }) => {
+  const { details } = section;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Consent Banner</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Consent platform: <strong>{details.cmp === 'unknown' ? 'Not identified' : details.cmp}</strong>
+        {' · '}
+        First-layer reject option: <strong>{details.hasFirstLayerReject ? 'Yes' : 'No'}</strong>
+      </p>
+
+      <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+        <pre className="whitespace-pre-wrap font-mono text-xs">
+          {section.sectionText}
+        </pre>
+      </div>
+
+      {details.buttons.length > 0 && (
+        <div className="mb-6 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Button</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 pr-4 font-medium">Size</th>
+                <th className="py-2 pr-4 font-medium">Colours</th>
+                <th className="py-2 font-medium">Text contrast</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.buttons.map((button, index) => (
+                <tr key={`${button.text}-${index}`} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-4">{button.text}</td>
+                  <td className="py-2 pr-4">{button.role}</td>
+                  <td className="py-2 pr-4">{button.width}×{button.height}px</td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className="inline-block px-2 py-0.5 rounded border border-gray-300 text-xs"
+                      style={{ color: button.color, backgroundColor: button.backgroundColor }}
+                    >
+                      Aa
+                    </span>
+                  </td>
+                  <td className="py-2">{button.textContrast}:1</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default ConsentBannerResults;
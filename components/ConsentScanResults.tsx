@@ -0,0 +1,74 @@
+import React from 'react';
+import { ConsentScanResult, ConsentState } from '@/types';
+import IssueList from './IssueList';
+
+interface ConsentScanResultsProps {
+  scan: ConsentScanResult;
+}
+
+const STATE_LABELS: Record<ConsentState, string> = {
+  none: 'No interaction',
+  reject: 'After "reject all"',
+  accept: 'After "accept all"'
+};
+
+const ConsentScanResults: React.FC<ConsentScanResultsProps> = ({ scan }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Consent Choices</h2>
+        {scan.compliant ? (
+          <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+            ✅ Compliant
+          </span>
+        ) : (
+          <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+            ❌ Not Compliant
+          </span>
+        )}
+      </div>
+
+      <div className="mb-6 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">State</th>
+              <th className="py-2 pr-4 font-medium">Button</th>
+              <th className="py-2 pr-4 font-medium">Cookies</th>
+              <th className="py-2 pr-4 font-medium">Third-party hosts</th>
+              <th className="py-2 font-medium">Trackers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {scan.states.map((observation) => (
+              <tr key={observation.state} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="py-2 pr-4">{STATE_LABELS[observation.state]}</td>
+                <td className="py-2 pr-4">
+                  {observation.state === 'none' ? '—' : observation.buttonFound ? observation.buttonText : 'Not found'}
+                </td>
+                <td className="py-2 pr-4">{observation.cookies.length}</td>
+                <td className="py-2 pr-4">{observation.thirdPartyHosts.length}</td>
+                <td className={`py-2 ${observation.trackingHosts.length > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                  {observation.trackingHosts.length}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {(scan.cookiesAddedByAccept.length > 0 || scan.hostsAddedByAccept.length > 0) && (
+        <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Only set after "accept all"</h3>
+          <p className="font-mono text-xs">
+            {[...scan.cookiesAddedByAccept, ...scan.hostsAddedByAccept].join(', ')}
+          </p>
+        </div>
+      )}
+
+      <IssueList issues={scan.issues} />
+    </div>
+  );
+};
+
+export default ConsentScanResults;
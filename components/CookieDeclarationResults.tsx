@@ -0,0 +1,95 @@
+import React from 'react';
+import { CookieDeclarationAnalysis } from '@/types';
+import IssueList from './IssueList';
+
+interface CookieDeclarationResultsProps {
+  section: CookieDeclarationAnalysis;
+}
+
+const formatLifetime = (seconds: number): string => {
+  if (seconds === 0) return 'Session';
+  if (seconds < 86400) return `${Math.max(Math.round(seconds / 3600), 1)} hours`;
+  return `${Math.round(seconds / 86400)} days`;
+};
+
+const CookieDeclarationResults: React.FC<CookieDeclarationResultsProps> = ({ section }) => {
+  const { details } = section;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Cookie Declaration</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        The {details.declared.length} cookie(s) listed in the cookie policy, compared with the cookies set during the consent checks.
+      </p>
+
+      {details.lifetimes.length > 0 && (
+        <div className="mb-6 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Cookie</th>
+                <th className="py-2 pr-4 font-medium">Observed lifetime</th>
+                <th className="py-2 pr-4 font-medium">Declared duration</th>
+                <th className="py-2 font-medium">Problem</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.lifetimes.map((finding) => (
+                <tr key={`${finding.domain}-${finding.name}`} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-4 font-mono text-xs">
+                    {finding.name} <span className="text-gray-500">({finding.domain})</span>
+                  </td>
+                  <td className="py-2 pr-4">{formatLifetime(finding.lifetimeSeconds)}</td>
+                  <td className="py-2 pr-4">{finding.declaredDuration || '—'}</td>
+                  <td className="py-2 text-red-600 dark:text-red-400">
+                    {[finding.exceedsDeclared && 'Longer than declared', finding.exceedsCap && 'Over 13 months'].filter(Boolean).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Not declared ({details.undeclared.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {details.undeclared.map((cookie) => (
+              <li key={`${cookie.domain}-${cookie.name}`} className={cookie.tracking ? 'text-red-600 dark:text-red-400' : ''}>
+                {cookie.name} <span className="text-gray-500">({cookie.domain})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Declared but not observed ({details.absent.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {details.absent.map((name) => (
+              <li key={name}>{name}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default CookieDeclarationResults;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { CrawlReport, LoginReport } from '@/types';
+import IssueList from './IssueList';
+
+interface CrawlResultsProps {
+  report: CrawlReport;
+  login?: LoginReport;
+}
+
+const CrawlResults: React.FC<CrawlResultsProps> = ({ report, login }) => {
+  const { settings } = report;
+  const trackingCookies = report.cookies.filter(cookie => cookie.tracking);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Site Crawl</h2>
+        {report.compliant ? (
+          <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+            ✅ Compliant
+          </span>
+        ) : (
+          <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+            ❌ Not Compliant
+          </span>
+        )}
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        {report.pages.length} page(s) of the site visited without consenting, up to {settings.maxDepth} link(s) from the homepage
+        and {settings.maxPages} page(s), {settings.concurrency} at a time.
+        {settings.include.length > 0 && ` Only URLs containing ${settings.include.join(', ')}.`}
+        {settings.exclude.length > 0 && ` URLs containing ${settings.exclude.join(', ')} skipped.`}
+        {!report.networkObserved && ' Pages were read as static HTML, so cookies and requests could not be observed.'}
+      </p>
+
+      {login && (login.succeeded ? (
+        <p className="mb-4 text-sm text-green-700 dark:text-green-400">
+          Crawled as a logged-in visitor after {login.steps} login step(s)
+          {login.landingUrl && <>, which ended on <span className="font-mono text-xs break-all">{login.landingUrl}</span></>}.
+          {' '}Links that would log out, delete, remove, unsubscribe or cancel were not followed.
+        </p>
+      ) : (
+        <p className="mb-4 text-sm text-red-600 dark:text-red-400">
+          The login failed after {login.completedSteps} of {login.steps} step(s), so only public pages were crawled: {login.error}
+        </p>
+      ))}
+
+      <div className="mb-6 overflow-auto max-h-96">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">Page</th>
+              <th className="py-2 pr-4 font-medium">Depth</th>
+              <th className="py-2 pr-4 font-medium">Forms</th>
+              <th className="py-2 pr-4 font-medium">New cookies</th>
+              <th className="py-2 font-medium">Trackers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.pages.map((page) => (
+              <tr key={page.url} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="py-2 pr-4 font-mono text-xs break-all">
+                  {page.url}
+                  {page.error && <span className="block text-red-600 dark:text-red-400">{page.error}</span>}
+                </td>
+                <td className="py-2 pr-4">{page.depth}</td>
+                <td className="py-2 pr-4">{page.formCount}</td>
+                <td className="py-2 pr-4 font-mono text-xs break-all">{page.cookies.join(', ') || '—'}</td>
+                <td className="py-2 font-mono text-xs break-all">{page.trackingHosts.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {report.networkObserved && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+            <h3 className="font-medium mb-2">Tracking cookies ({trackingCookies.length} of {report.cookies.length})</h3>
+            <ul className="font-mono text-xs space-y-1">
+              {trackingCookies.map((cookie) => (
+                <li key={`${cookie.domain}-${cookie.name}`} title={cookie.firstSeenOn}>
+                  {cookie.name} <span className="text-gray-500">({cookie.domain})</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+            <h3 className="font-medium mb-2">Third-party hosts ({report.thirdPartyHosts.length})</h3>
+            <ul className="font-mono text-xs space-y-1">
+              {report.thirdPartyHosts.map((host) => (
+                <li key={host.host} className={host.tracking ? 'text-red-600 dark:text-red-400' : ''} title={host.pages.join('\n')}>
+                  {host.host} <span className="text-gray-500">({host.pages.length} page(s))</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      <IssueList issues={report.issues} />
+    </div>
+  );
+};
+
+export default CrawlResults;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { DataTransferAnalysis, TransferSafeguard, TransferStatus } from '@/types';
+import IssueList from './IssueList';
+
+interface DataTransferResultsProps {
+  section: DataTransferAnalysis;
+}
+
+const STATUS_LABELS: Record<TransferStatus, { label: string; className: string }> = {
+  eea: { label: 'EEA', className: '' },
+  adequate: { label: 'Adequacy decision', className: '' },
+  framework: { label: 'Data Privacy Framework only', className: 'text-amber-700 dark:text-amber-400' },
+  none: { label: 'No adequacy decision', className: 'text-red-600 dark:text-red-400' },
+  unknown: { label: 'Unknown', className: 'text-gray-500' }
+};
+
+const SAFEGUARD_LABELS: Record<TransferSafeguard, string> = {
+  scc: 'Standard contractual clauses',
+  adequacy: 'Adequacy decision',
+  dpf: 'Data Privacy Framework',
+  bcr: 'Binding corporate rules'
+};
+
+const DataTransferResults: React.FC<DataTransferResultsProps> = ({ section }) => {
+  const { details } = section;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">International Data Transfers</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Where the third-party vendors contacted by the site are established, under GDPR Chapter V, and the
+        safeguards the privacy policy states for them.
+      </p>
+
+      {details.recipients.length > 0 && (
+        <div className="mb-6 overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Recipient</th>
+                <th className="py-2 pr-4 font-medium">Country</th>
+                <th className="py-2 font-medium">Transfer basis</th>
+              </tr>
+            </thead>
+            <tbody>
+              {details.recipients.map((recipient) => (
+                <tr key={recipient.vendor} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="py-2 pr-4">{recipient.vendor}</td>
+                  <td className="py-2 pr-4">{recipient.country || '—'}</td>
+                  <td className={`py-2 ${STATUS_LABELS[recipient.status].className}`}>{STATUS_LABELS[recipient.status].label}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+        <h3 className="font-medium mb-2">Safeguards in the privacy policy</h3>
+        {!details.policyAvailable ? (
+          <p>No privacy policy was found.</p>
+        ) : details.safeguards.length > 0 ? (
+          <ul className="space-y-2">
+            {details.safeguards.map((mention) => (
+              <li key={mention.safeguard}>
+                <strong>{SAFEGUARD_LABELS[mention.safeguard]}:</strong>{' '}
+                <span className="italic">&ldquo;{mention.excerpt}&rdquo;</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>
+            None mentioned{details.policyMentionsTransfers ? ', although the policy mentions transfers to third countries' : ''}.
+          </p>
+        )}
+      </div>
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default DataTransferResults;
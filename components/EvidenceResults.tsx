@@ -0,0 +1,74 @@
+import React from 'react';
+import { EvidenceBundle, EvidenceKind } from '@/types';
+
+interface EvidenceResultsProps {
+  evidence: EvidenceBundle;
+}
+
+const KIND_LABELS: Record<EvidenceKind, string> = {
+  screenshot: 'Screenshot',
+  har: 'HAR',
+  html: 'HTML',
+  pdf: 'PDF'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const EvidenceResults: React.FC<EvidenceResultsProps> = ({ evidence }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Evidence</h2>
+        <a
+          href={evidence.downloadUrl}
+          className="px-4 py-2 bg-primary text-white text-sm rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Download bundle
+        </a>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Captured on {new Date(evidence.createdAt).toLocaleString()}. Each file&apos;s SHA-256 hash is also recorded in the
+        bundle&apos;s manifest.json, so that the files can be shown to be unchanged since the scan.
+      </p>
+
+      <div className="overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">File</th>
+              <th className="py-2 pr-4 font-medium">Type</th>
+              <th className="py-2 pr-4 font-medium">Captured</th>
+              <th className="py-2 font-medium">SHA-256</th>
+            </tr>
+          </thead>
+          <tbody>
+            {evidence.files.map((file) => (
+              <tr key={file.name} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="py-2 pr-4">
+                  <a
+                    href={`${evidence.downloadUrl}/${encodeURIComponent(file.name)}`}
+                    className="text-blue-600 dark:text-blue-400 hover:underline"
+                    title={file.url}
+                  >
+                    {file.description}
+                  </a>
+                  <span className="text-gray-500"> ({formatSize(file.size)})</span>
+                </td>
+                <td className="py-2 pr-4">{KIND_LABELS[file.kind]}</td>
+                <td className="py-2 pr-4 whitespace-nowrap">{new Date(file.capturedAt).toLocaleTimeString()}</td>
+                <td className="py-2 font-mono text-xs break-all">{file.sha256}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default EvidenceResults;
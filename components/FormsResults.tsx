@@ -0,0 +1,101 @@
+import React from 'react';
+import { FormPurpose, FormsAnalysis, PersonalDataCategory } from '@/types';
+import IssueList from './IssueList';
+
+interface FormsResultsProps {
+  section: FormsAnalysis;
+}
+
+const PURPOSE_LABELS: Record<FormPurpose, string> = {
+  signup: 'Sign-up',
+  newsletter: 'Newsletter',
+  contact: 'Contact',
+  other: 'Other'
+};
+
+const DATA_LABELS: Record<PersonalDataCategory, string> = {
+  email: 'Email',
+  name: 'Name',
+  phone: 'Phone',
+  address: 'Address',
+  birthDate: 'Date of birth',
+  payment: 'Payment',
+  password: 'Password'
+};
+
+const FormsResults: React.FC<FormsResultsProps> = ({ section }) => {
+  const { details } = section;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Forms</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        The {details.forms.length} form(s) collecting personal data on {details.pagesScanned.length} page(s) scanned,
+        with their consent checkboxes and where they send the data.
+      </p>
+
+      <div className="mb-6 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">Form</th>
+              <th className="py-2 pr-4 font-medium">Personal data</th>
+              <th className="py-2 pr-4 font-medium">Consent checkboxes</th>
+              <th className="py-2 pr-4 font-medium">Privacy link</th>
+              <th className="py-2 font-medium">Sent to</th>
+            </tr>
+          </thead>
+          <tbody>
+            {details.forms.map((form, index) => (
+              <tr key={`${form.pageUrl}-${index}`} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="py-2 pr-4">
+                  {PURPOSE_LABELS[form.purpose]}
+                  <div className="font-mono text-xs text-gray-500 break-all">{form.pageUrl}</div>
+                </td>
+                <td className="py-2 pr-4">{form.personalData.map(category => DATA_LABELS[category]).join(', ')}</td>
+                <td className="py-2 pr-4">
+                  {form.checkboxes.length > 0 ? (
+                    <ul className="space-y-1">
+                      {form.checkboxes.map((checkbox) => (
+                        <li key={checkbox.label} className={checkbox.bundled || (checkbox.marketing && checkbox.preChecked) ? 'text-red-600 dark:text-red-400' : ''}>
+                          {checkbox.preChecked ? '☑' : '☐'} {checkbox.label}
+                          {checkbox.required && <span className="ml-1 text-gray-500">(required)</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : '—'}
+                </td>
+                <td className={`py-2 pr-4 ${form.privacyLinkNearby ? '' : 'text-red-600 dark:text-red-400'}`}>
+                  {form.privacyLinkNearby ? 'Yes' : 'No'}
+                </td>
+                <td className={`py-2 break-all ${form.insecure ? 'text-red-600 dark:text-red-400' : ''}`}>
+                  {form.recipient ? form.recipientVendor || form.recipient : 'This site'}
+                  {form.insecure && ' (HTTP)'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default FormsResults;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { ComplianceIssue } from '@/types';
+
+interface IssueListProps {
+  issues: ComplianceIssue[];
+}
+
+const IssueList: React.FC<IssueListProps> = ({ issues }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium mb-3">Issues Found</h3>
+      <ul className="space-y-4">
+        {issues.map((issue) => (
+          <li key={issue.ruleId} className="border-l-4 border-red-500 pl-4 py-2">
+            <h4 className="font-medium">
+              {issue.ruleName}
+              <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                issue.severity === 'high' 
+                  ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' 
+                  : issue.severity === 'medium'
+                    ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
+                    : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300'
+              }`}>
+                {issue.severity}
+              </span>
+            </h4>
+            <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{issue.description}</p>
+            <p className="mt-2 text-sm text-gray-800 dark:text-gray-200">
+              <strong>Recommendation:</strong> {issue.recommendation}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default IssueList;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { ProfileComparison } from '@/types';
+
+interface ProfileComparisonResultsProps {
+  comparison: ProfileComparison;
+}
+
+const yesNo = (value: boolean): string => value ? 'Yes' : 'No';
+
+const ProfileComparisonResults: React.FC<ProfileComparisonResultsProps> = ({ comparison }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <h2 className="text-xl font-semibold mb-4">Visitor Profiles</h2>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        The consent checks run again for other visitors, emulating their language, time zone, location and device.
+        Sites that detect visitors from their IP address still see the scanner&apos;s own location.
+      </p>
+
+      <div className="mb-6 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">Profile</th>
+              <th className="py-2 pr-4 font-medium">Banner</th>
+              <th className="py-2 pr-4 font-medium">Reject button</th>
+              <th className="py-2 pr-4 font-medium">Trackers before consent</th>
+              <th className="py-2 pr-4 font-medium">Trackers after reject</th>
+              <th className="py-2 font-medium">Consent checks</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.profiles.map((summary) => (
+              <tr key={summary.profileId} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="py-2 pr-4">{summary.profileName}</td>
+                {summary.error ? (
+                  <td colSpan={5} className="py-2 text-red-600 dark:text-red-400">{summary.error}</td>
+                ) : (
+                  <>
+                    <td className="py-2 pr-4">
+                      {yesNo(summary.bannerFound)}
+                      {summary.cmp && summary.cmp !== 'unknown' && <span className="text-gray-500"> ({summary.cmp})</span>}
+                    </td>
+                    <td className="py-2 pr-4">{yesNo(summary.rejectFound)}</td>
+                    <td className="py-2 pr-4 font-mono text-xs break-all">{summary.trackingHostsBeforeConsent.join(', ') || '—'}</td>
+                    <td className="py-2 pr-4 font-mono text-xs break-all">{summary.trackingHostsAfterReject.join(', ') || '—'}</td>
+                    <td className="py-2">{summary.compliant ? '✅ Pass' : '❌ Fail'}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {comparison.differences.length > 0 ? (
+        <ul className="list-disc pl-5 space-y-1 text-sm">
+          {comparison.differences.map((difference) => (
+            <li key={difference}>{difference}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-300">The site treated every profile the same way.</p>
+      )}
+    </div>
+  );
+};
+
+export default ProfileComparisonResults;
@@ -1,16 +1,25 @@
 import React from 'react';
-import { SectionAnalysis } from '@/types';
+import { DiscoveryMethod, DocumentTypeDefinition, SectionAnalysis } from '@/types';
+import IssueList from './IssueList';
+
+const DISCOVERY_LABELS: Record<DiscoveryMethod, string> = {
+  'homepage-link': 'link on the homepage',
+  'legal-page-link': 'link on a legal or about page',
+  'robots-sitemap': 'sitemap declared in robots.txt',
+  'sitemap': 'sitemap.xml',
+  'well-known-path': 'common policy path'
+};
 
 interface SectionResultsProps {
   section: SectionAnalysis;
-  title: string;
+  documentType: DocumentTypeDefinition;
 }
 
-const SectionResults: React.FC<SectionResultsProps> = ({ section, title }) => {
+const SectionResults: React.FC<SectionResultsProps> = ({ section, documentType }) => {
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold">{title}</h2>
+        <h2 className="text-xl font-semibold">{documentType.title}</h2>
         <div className="flex items-center">
           <span className="text-lg font-bold mr-2">{section.score}%</span>
           {section.compliant ? (
@@ -25,39 +34,42 @@ const SectionResults: React.FC<SectionResultsProps> = ({ section, title }) => {
         </div>
       </div>
 
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">{documentType.description}</p>
+
+      {section.sourceUrl && (
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-300 break-all">
+          Source: <a href={section.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline">{section.sourceUrl}</a>
+          {section.sourceFormat === 'pdf' && <> (PDF document)</>}
+          {section.discoveryMethod && <> (found via {DISCOVERY_LABELS[section.discoveryMethod]})</>}
+        </p>
+      )}
+
+      {section.extractionMethod === 'llm' && (
+        <p className="mb-4 text-sm text-amber-700 dark:text-amber-300">
+          This page had no usable structure, so its text was extracted by AI and its wording may differ from the original.
+        </p>
+      )}
+
+      {section.outline && section.outline.length > 0 && (
+        <details className="mb-4 text-sm">
+          <summary className="cursor-pointer font-medium">Outline ({section.outline.length} headings)</summary>
+          <ul className="mt-2">
+            {section.outline.map((heading, index) => (
+              <li key={`${heading.text}-${index}`} style={{ paddingLeft: `${heading.level - 1}rem` }}>
+                {heading.text}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
       <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
         <pre className="whitespace-pre-wrap font-mono text-xs">
           {section.sectionText}
         </pre>
       </div>
 
-      {section.issues.length > 0 && (
-        <div>
-          <h3 className="text-lg font-medium mb-3">Issues Found</h3>
-          <ul className="space-y-4">
-            {section.issues.map((issue) => (
-              <li key={issue.ruleId} className="border-l-4 border-red-500 pl-4 py-2">
-                <h4 className="font-medium">
-                  {issue.ruleName}
-                  <span className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
-                    issue.severity === 'high' 
-                      ? 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-300' 
-                      : issue.severity === 'medium'
-                        ? 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-300'
-                        : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300'
-                  }`}>
-                    {issue.severity}
-                  </span>
-                </h4>
-                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">{issue.description}</p>
-                <p className="mt-2 text-sm text-gray-800 dark:text-gray-200">
-                  <strong>Recommendation:</strong> {issue.recommendation}
-                </p>
-              </li>
-            ))}
-          </ul>
-        </div>
-      )}
+      <IssueList issues={section.issues} />
     </div>
   );
 };
@@ -0,0 +1,99 @@
+import React from 'react';
+import { SecurityAnalysis } from '@/types';
+import IssueList from './IssueList';
+
+interface SecurityResultsProps {
+  section: SecurityAnalysis;
+}
+
+const formatDate = (value: string | null): string => {
+  return value ? new Date(value).toLocaleDateString() : '—';
+};
+
+const SecurityResults: React.FC<SecurityResultsProps> = ({ section }) => {
+  const { details } = section;
+  const checks = [
+    { label: 'HTTPS', value: details.finalUrl.startsWith('https:') ? 'Yes' : 'No', ok: details.finalUrl.startsWith('https:') },
+    {
+      label: 'HTTP redirects to HTTPS',
+      value: details.httpsRedirect === null ? 'HTTP not served' : details.httpsRedirect ? 'Yes' : 'No',
+      ok: details.httpsRedirect !== false
+    },
+    ...details.headers.map(check => ({ label: check.header, value: check.value || 'Missing', ok: check.ok })),
+    {
+      label: 'Mixed content',
+      value: details.mixedContent.length ? `${details.mixedContent.length} resource(s)` : 'None',
+      ok: details.mixedContent.length === 0
+    }
+  ];
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Security Measures</h2>
+        <div className="flex items-center">
+          <span className="text-lg font-bold mr-2">{section.score}%</span>
+          {section.compliant ? (
+            <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+              ✅ Compliant
+            </span>
+          ) : (
+            <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+              ❌ Not Compliant
+            </span>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Technical measures protecting personal data in transit (GDPR Art. 32), as seen when loading {details.finalUrl}.
+      </p>
+
+      <div className="mb-6 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <tbody>
+            {checks.map((check) => (
+              <tr key={check.label} className="border-b border-gray-100 dark:border-gray-700">
+                <td className="py-2 pr-4 font-medium">{check.ok ? '✅' : '❌'} {check.label}</td>
+                <td className="py-2 font-mono text-xs break-all">{check.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm">
+          <h3 className="font-medium mb-2">TLS certificate</h3>
+          {details.tls ? (
+            <ul className="space-y-1">
+              <li>Subject: {details.tls.subjectName || '—'}</li>
+              <li>Issuer: {details.tls.issuer || '—'}</li>
+              <li>Protocol: {details.tls.protocol || '—'}</li>
+              <li>Valid: {formatDate(details.tls.validFrom)} – {formatDate(details.tls.validTo)}</li>
+              {details.tls.authorized !== null && (
+                <li>Trusted: {details.tls.authorized ? 'yes' : `no (${details.tls.error || 'untrusted'})`}</li>
+              )}
+            </ul>
+          ) : (
+            <p>No certificate details were available.</p>
+          )}
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Cookies missing attributes ({details.cookies.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {details.cookies.map((cookie) => (
+              <li key={`${cookie.domain}-${cookie.name}`}>
+                {cookie.name} <span className="text-gray-500">({cookie.missing.join(', ')})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <IssueList issues={section.issues} />
+    </div>
+  );
+};
+
+export default SecurityResults;
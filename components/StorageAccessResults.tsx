@@ -0,0 +1,87 @@
+import React from 'react';
+import { ConsentState, StorageAccessReport, StorageApi } from '@/types';
+import IssueList from './IssueList';
+
+interface StorageAccessResultsProps {
+  report: StorageAccessReport;
+}
+
+const API_LABELS: Record<StorageApi, string> = {
+  localStorage: 'localStorage',
+  sessionStorage: 'sessionStorage',
+  indexedDB: 'IndexedDB',
+  serviceWorker: 'Service worker',
+  canvas: 'Canvas',
+  webgl: 'WebGL',
+  audio: 'AudioContext'
+};
+
+const STATE_LABELS: Record<ConsentState, string> = {
+  none: 'Before consent',
+  reject: 'After reject',
+  accept: 'After accept'
+};
+
+const StorageAccessResults: React.FC<StorageAccessResultsProps> = ({ report }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Storage &amp; Fingerprinting</h2>
+        {report.compliant ? (
+          <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+            ✅ Compliant
+          </span>
+        ) : (
+          <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+            ❌ Not Compliant
+          </span>
+        )}
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        Web storage, IndexedDB and service worker use, and reads of fingerprinting APIs, with the script responsible for each.
+      </p>
+
+      {report.accesses.length > 0 ? (
+        <div className="mb-6 overflow-auto max-h-96">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">API</th>
+                <th className="py-2 pr-4 font-medium">Call</th>
+                <th className="py-2 pr-4 font-medium">Key</th>
+                <th className="py-2 pr-4 font-medium">Script</th>
+                <th className="py-2 pr-4 font-medium">State</th>
+                <th className="py-2 font-medium">Calls</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.accesses.map((access) => (
+                <tr
+                  key={[access.state, access.api, access.operation, access.key, access.scriptUrl].join('|')}
+                  className={`border-b border-gray-100 dark:border-gray-700 ${access.fingerprinting ? 'text-red-600 dark:text-red-400' : ''}`}
+                >
+                  <td className="py-2 pr-4">{API_LABELS[access.api]}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">{access.operation}</td>
+                  <td className="py-2 pr-4 font-mono text-xs break-all">{access.key || '—'}</td>
+                  <td className="py-2 pr-4 font-mono text-xs break-all" title={access.scriptUrl || undefined}>
+                    {access.scriptOrigin || 'Inline script'}
+                    {access.thirdParty && <span className="ml-1 text-gray-500">(third party)</span>}
+                  </td>
+                  <td className="py-2 pr-4">{STATE_LABELS[access.state]}</td>
+                  <td className="py-2">{access.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="mb-6 text-sm text-gray-600 dark:text-gray-300">No storage or fingerprinting API calls were observed.</p>
+      )}
+
+      <IssueList issues={report.issues} />
+    </div>
+  );
+};
+
+export default StorageAccessResults;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { ConsentState, TcfAnalysis, TcfSource } from '@/types';
+import { TCF_PURPOSES, TCF_SPECIAL_FEATURES } from '@/services/tcfService';
+import IssueList from './IssueList';
+
+interface TcfResultsProps {
+  tcf: TcfAnalysis;
+}
+
+const STATE_LABELS: Record<ConsentState, string> = {
+  none: 'Before consent',
+  reject: 'After reject',
+  accept: 'After accept'
+};
+
+const SOURCE_LABELS: Record<TcfSource, string> = {
+  api: '__tcfapi',
+  cookie: 'euconsent-v2 cookie',
+  localStorage: 'localStorage'
+};
+
+const IdList: React.FC<{ ids: number[]; names: Record<number, string> }> = ({ ids, names }) => {
+  if (ids.length === 0) return <>None</>;
+  return (
+    <>
+      {ids.map((id, index) => (
+        <span key={id} title={names[id]}>
+          {index > 0 && ', '}
+          {id}
+        </span>
+      ))}
+    </>
+  );
+};
+
+const TcfResults: React.FC<TcfResultsProps> = ({ tcf }) => {
+  const cmpIds = Array.from(new Set(tcf.states.map(observation => observation.consent?.cmpId).filter(id => id !== undefined)));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">IAB TCF Consent String</h2>
+        {tcf.compliant ? (
+          <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+            ✅ Compliant
+          </span>
+        ) : (
+          <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+            ❌ Not Compliant
+          </span>
+        )}
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        The TCF v2 consent string read in each consent state{cmpIds.length > 0 && `, set by CMP ID ${cmpIds.join(', ')}`}.
+        Hover a purpose number for its name.
+      </p>
+
+      <div className="mb-6 overflow-auto">
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">State</th>
+              <th className="py-2 pr-4 font-medium">Source</th>
+              <th className="py-2 pr-4 font-medium">Purposes consented</th>
+              <th className="py-2 pr-4 font-medium">Legitimate interest</th>
+              <th className="py-2 pr-4 font-medium">Special features</th>
+              <th className="py-2 font-medium">Vendors (consent / legitimate interest)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {tcf.states.map((observation) => (
+              <tr key={observation.state} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                <td className="py-2 pr-4">{STATE_LABELS[observation.state]}</td>
+                <td className="py-2 pr-4">{observation.source ? SOURCE_LABELS[observation.source] : 'No TC string'}</td>
+                {observation.consent ? (
+                  <>
+                    <td className="py-2 pr-4"><IdList ids={observation.consent.purposeConsents} names={TCF_PURPOSES} /></td>
+                    <td className="py-2 pr-4"><IdList ids={observation.consent.purposeLegitimateInterests} names={TCF_PURPOSES} /></td>
+                    <td className="py-2 pr-4"><IdList ids={observation.consent.specialFeatureOptIns} names={TCF_SPECIAL_FEATURES} /></td>
+                    <td className="py-2">
+                      <details>
+                        <summary className="cursor-pointer">
+                          {observation.consent.vendorConsents.length} / {observation.consent.vendorLegitimateInterests.length}
+                        </summary>
+                        <p className="mt-1 font-mono text-xs break-all">
+                          Consent: {observation.consent.vendorConsents.join(', ') || 'none'}
+                        </p>
+                        <p className="mt-1 font-mono text-xs break-all">
+                          Legitimate interest: {observation.consent.vendorLegitimateInterests.join(', ') || 'none'}
+                        </p>
+                      </details>
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={4} className="py-2 text-gray-500">
+                    {observation.error ? `Could not decode: ${observation.error}` : '—'}
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <IssueList issues={tcf.issues} />
+    </div>
+  );
+};
+
+export default TcfResults;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { PreConsentTracking } from '@/types';
+import IssueList from './IssueList';
+
+interface TrackingResultsProps {
+  tracking: PreConsentTracking;
+}
+
+const TrackingResults: React.FC<TrackingResultsProps> = ({ tracking }) => {
+  const thirdPartyHosts = Array.from(new Set(tracking.thirdPartyRequests.map(request => request.host)));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Pre-Consent Tracking</h2>
+        {tracking.compliant ? (
+          <span className="bg-green-100 text-green-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-green-900 dark:text-green-300">
+            ✅ Compliant
+          </span>
+        ) : (
+          <span className="bg-red-100 text-red-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-red-900 dark:text-red-300">
+            ❌ Not Compliant
+          </span>
+        )}
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        What the website stored and contacted before any interaction with its consent banner.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Cookies ({tracking.cookies.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {tracking.cookies.map((cookie) => (
+              <li key={`${cookie.domain}-${cookie.name}`} className={cookie.tracking ? 'text-red-600 dark:text-red-400' : ''}>
+                {cookie.name} <span className="text-gray-500">({cookie.domain})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">localStorage ({tracking.localStorageKeys.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {tracking.localStorageKeys.map((key) => (
+              <li key={key}>{key}</li>
+            ))}
+          </ul>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700 rounded-md text-sm overflow-auto max-h-60">
+          <h3 className="font-medium mb-2">Third-party hosts ({thirdPartyHosts.length})</h3>
+          <ul className="font-mono text-xs space-y-1">
+            {thirdPartyHosts.map((host) => (
+              <li
+                key={host}
+                className={tracking.thirdPartyRequests.some(request => request.host === host && request.tracking) ? 'text-red-600 dark:text-red-400' : ''}
+              >
+                {host}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <IssueList issues={tracking.issues} />
+    </div>
+  );
+};
+
+export default TrackingResults;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { ConsentState, VendorCategory, VendorInventory } from '@/types';
+
+interface VendorInventoryResultsProps {
+  inventory: VendorInventory;
+}
+
+const CATEGORY_LABELS: Record<VendorCategory | 'unknown', string> = {
+  analytics: 'Analytics',
+  advertising: 'Advertising',
+  social: 'Social',
+  cdn: 'CDN',
+  'tag-manager': 'Tag manager',
+  consent: 'Consent',
+  support: 'Support',
+  media: 'Media',
+  payments: 'Payments',
+  monitoring: 'Monitoring',
+  other: 'Other',
+  unknown: 'Unknown'
+};
+
+const STATE_LABELS: Record<ConsentState, string> = {
+  none: 'Before consent',
+  reject: 'After reject',
+  accept: 'After accept'
+};
+
+const countryNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+const getCountryName = (code: string | null): string => {
+  if (!code) return '—';
+  try {
+    return countryNames.of(code) || code;
+  } catch (e) {
+    return code;
+  }
+};
+
+const VendorInventoryResults: React.FC<VendorInventoryResultsProps> = ({ inventory }) => {
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-8 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold">Third-Party Vendors</h2>
+        <span className="bg-gray-100 text-gray-800 text-xs font-medium px-2.5 py-0.5 rounded-full dark:bg-gray-700 dark:text-gray-300">
+          {inventory.vendors.length} vendor(s)
+        </span>
+      </div>
+
+      <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+        The companies behind the third-party hosts contacted in any consent state, according to the tracker
+        database of {inventory.databaseVersion}.
+      </p>
+
+      {inventory.vendors.length > 0 ? (
+        <div className="overflow-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700">
+                <th className="py-2 pr-4 font-medium">Vendor</th>
+                <th className="py-2 pr-4 font-medium">Category</th>
+                <th className="py-2 pr-4 font-medium">Headquarters</th>
+                <th className="py-2 pr-4 font-medium">Hosts</th>
+                <th className="py-2 pr-4 font-medium">Requests</th>
+                <th className="py-2 font-medium">Seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {inventory.vendors.map((entry) => (
+                <tr key={entry.vendor || entry.hosts[0]} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                  <td className="py-2 pr-4">
+                    {entry.vendor || <span className="text-gray-500">Unknown</span>}
+                    {entry.company && <div className="text-xs text-gray-500">{entry.company}</div>}
+                  </td>
+                  <td className={`py-2 pr-4 ${entry.category === 'analytics' || entry.category === 'advertising' ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    {CATEGORY_LABELS[entry.category]}
+                  </td>
+                  <td className="py-2 pr-4">{getCountryName(entry.country)}</td>
+                  <td className="py-2 pr-4 font-mono text-xs">{entry.hosts.join(', ')}</td>
+                  <td className="py-2 pr-4">{entry.requestCount}</td>
+                  <td className="py-2 text-xs">{entry.states.map(state => STATE_LABELS[state]).join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 dark:text-gray-300">No third-party requests were observed.</p>
+      )}
+    </div>
+  );
+};
+
+export default VendorInventoryResults;
@@ -0,0 +1,10 @@
+/**
+ * Runs once when the server starts
+ */
+export async function register() {
+  // Playwright only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { preflightBrowserPool } = await import('./services/browserPoolService');
+    await preflightBrowserPool();
+  }
+}
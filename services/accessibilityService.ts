@@ -0,0 +1,301 @@
+import type { Page } from 'playwright';
+import axe from 'axe-core';
+import type { AxeResults, NodeResult, Result } from 'axe-core';
+import wcagCriteria from '@/lib/wcag-criteria.json';
+import {
+  AccessibilityAnalysis,
+  AccessibilityImpact,
+  AccessibilityViolation,
+  ComplianceIssue,
+  KeyboardFocusCheck,
+  WcagCriterionFinding,
+  WcagLevel
+} from '@/types';
+import { scoreIssues } from './scoringService';
+
+// axe rules tagged with these cover the WCAG 2.1 A and AA success criteria; best practices are run for landmarks
+const AXE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+
+// Landmark rules are best practices in axe, they are reported together rather than under a success criterion
+const LANDMARK_RULE_PATTERN = /^(landmark-|region$)/;
+const LANDMARKS_KEY = 'landmarks';
+
+// Tab presses for the keyboard check, enough to leave the header of most pages
+const MAX_TAB_STOPS = 40;
+
+// Focus staying on the same element for this many Tab presses is a keyboard trap
+const TRAP_REPEATS = 3;
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+declare global {
+  interface Window {
+    axe: typeof axe; // once its source has been evaluated in the page
+    __complianceFocusCount?: number;
+  }
+}
+
+// Elements are numbered as they get focus, on the element itself
+type FocusedElement = HTMLElement & { __complianceFocusId?: number };
+
+const CRITERIA = (wcagCriteria as { criteria: Record<string, { name: string; level: WcagLevel }> }).criteria;
+
+export interface RawAxeViolation {
+  id: string;
+  impact: AccessibilityImpact | null;
+  help: string;
+  helpUrl: string;
+  tags: string[];
+  nodeCount: number;
+  targets: string[];
+}
+
+/**
+ * Raw results of the accessibility audit of a rendered page
+ */
+export interface AccessibilityEvidence {
+  pageUrl: string;
+  engine: string;
+  violations: RawAxeViolation[];
+  keyboard: KeyboardFocusCheck;
+}
+
+/**
+ * Runs axe in the page, once its source has been evaluated there.
+ * Runs in the browser, so it must stay self-contained.
+ */
+const runAxe = ({ tags }: { tags: string[] }): Promise<RawAxeViolation[]> => {
+  return window.axe
+    .run(document, { runOnly: { type: 'tag', values: tags }, resultTypes: ['violations'] })
+    .then((results: AxeResults) => results.violations.map((violation: Result) => ({
+      id: violation.id,
+      impact: violation.impact ?? null,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      tags: violation.tags,
+      nodeCount: violation.nodes.length,
+      targets: violation.nodes.slice(0, 5).map((node: NodeResult) => node.target.join(' '))
+    })));
+};
+
+/**
+ * Describes the focused element, numbering elements as they get focus so that repeats can be told apart.
+ * Runs in the browser, so it must stay self-contained.
+ */
+const readFocusedElement = () => {
+  const element = document.activeElement as FocusedElement | null;
+  if (!element || element === document.body || element === document.documentElement) return null;
+
+  if (element.__complianceFocusId === undefined) {
+    window.__complianceFocusCount = (window.__complianceFocusCount || 0) + 1;
+    element.__complianceFocusId = window.__complianceFocusCount;
+  }
+  const style = window.getComputedStyle(element);
+  const text = (element.textContent || element.getAttribute('aria-label') || element.getAttribute('name') || '').replace(/\s+/g, ' ').trim();
+  return {
+    id: element.__complianceFocusId as number,
+    description: `${element.tagName.toLowerCase()}${element.id ? `#${element.id}` : ''}${text ? ` "${text.slice(0, 40)}"` : ''}`,
+    frame: element.tagName === 'IFRAME',
+    // Outlines and shadows are the usual focus indicators; other styles changing on focus are not detected
+    indicator: (style.outlineStyle !== 'none' && parseFloat(style.outlineWidth) > 0) || style.boxShadow !== 'none'
+  };
+};
+
+/**
+ * Counts the visible elements that should be reachable with the keyboard.
+ * Runs in the browser, so it must stay self-contained.
+ */
+const countFocusableElements = (): number => {
+  const selector = 'a[href], button:not([disabled]), input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+  return Array.from(document.querySelectorAll(selector)).filter(element => {
+    const rect = element.getBoundingClientRect();
+    return rect.width > 0 && rect.height > 0;
+  }).length;
+};
+
+/**
+ * Tabs through the page, checking that focus moves, never gets stuck and stays visible
+ */
+const checkKeyboardFocus = async (page: Page): Promise<KeyboardFocusCheck> => {
+  const focusableCount = await page.evaluate(countFocusableElements);
+  await page.evaluate(() => (document.activeElement as HTMLElement | null)?.blur());
+
+  const reached = new Set<number>();
+  const withoutIndicator = new Set<string>();
+  let trap: string | null = null;
+  let previousId: number | null = null;
+  let repeats = 0;
+
+  for (let press = 0; press < MAX_TAB_STOPS; press++) {
+    await page.keyboard.press('Tab');
+    const focused = await page.evaluate(readFocusedElement);
+    if (!focused) {
+      previousId = null;
+      continue;
+    }
+
+    // Focus inside an iframe leaves the iframe element focused in the page
+    repeats = focused.id === previousId && !focused.frame ? repeats + 1 : 0;
+    if (repeats >= TRAP_REPEATS - 1) {
+      trap = focused.description;
+      break;
+    }
+    previousId = focused.id;
+    reached.add(focused.id);
+    if (!focused.indicator && !focused.frame) withoutIndicator.add(focused.description);
+  }
+
+  return {
+    focusableCount,
+    tabStops: reached.size,
+    trap,
+    withoutIndicator: Array.from(withoutIndicator)
+  };
+};
+
+/**
+ * Audits a rendered page against WCAG 2.1 AA with axe, then checks its keyboard navigation
+ */
+export const runAccessibilityAudit = async (page: Page): Promise<AccessibilityEvidence> => {
+  // Evaluated rather than added as a script tag, which a Content Security Policy could block
+  await page.evaluate(axe.source);
+  const violations = await page.evaluate(runAxe, { tags: AXE_TAGS });
+
+  return {
+    pageUrl: page.url(),
+    engine: `axe-core ${axe.version}`,
+    violations,
+    keyboard: await checkKeyboardFocus(page)
+  };
+};
+
+/**
+ * The WCAG success criterion a violation is reported under: the first one among its tags
+ */
+const getCriterion = (violation: RawAxeViolation): string | null => {
+  if (LANDMARK_RULE_PATTERN.test(violation.id)) return LANDMARKS_KEY;
+  for (const tag of violation.tags) {
+    const match = tag.match(/^wcag(\d)(\d)(\d+)$/);
+    const criterion = match ? `${match[1]}.${match[2]}.${match[3]}` : null;
+    if (criterion && CRITERIA[criterion]) return criterion;
+  }
+  return null;
+};
+
+const toViolation = (violation: RawAxeViolation): AccessibilityViolation => ({
+  ruleId: violation.id,
+  description: violation.help,
+  impact: violation.impact || 'moderate',
+  nodeCount: violation.nodeCount,
+  targets: violation.targets,
+  helpUrl: violation.helpUrl
+});
+
+/**
+ * Adds the failures of the keyboard check to the criteria they break
+ */
+const getKeyboardViolations = (keyboard: KeyboardFocusCheck): [string, AccessibilityViolation][] => {
+  const violations: [string, AccessibilityViolation][] = [];
+  if (keyboard.focusableCount > 0 && keyboard.tabStops === 0 && !keyboard.trap) {
+    violations.push(['2.1.1', {
+      ruleId: 'keyboard-unreachable',
+      description: 'Pressing Tab never moves focus to the links and controls of the page',
+      impact: 'critical',
+      nodeCount: keyboard.focusableCount,
+      targets: []
+    }]);
+  }
+  if (keyboard.trap) {
+    violations.push(['2.1.2', {
+      ruleId: 'keyboard-trap',
+      description: 'Focus gets stuck on an element and can\'t be moved away with Tab',
+      impact: 'critical',
+      nodeCount: 1,
+      targets: [keyboard.trap]
+    }]);
+  }
+  if (keyboard.withoutIndicator.length > 0) {
+    violations.push(['2.4.7', {
+      ruleId: 'focus-indicator',
+      description: 'Focused elements show no outline or shadow, so keyboard users can\'t see where they are',
+      impact: 'serious',
+      nodeCount: keyboard.withoutIndicator.length,
+      targets: keyboard.withoutIndicator.slice(0, 5)
+    }]);
+  }
+  return violations;
+};
+
+const highestImpact = (violations: AccessibilityViolation[]): AccessibilityImpact => {
+  return violations.reduce<AccessibilityImpact>((highest, violation) => {
+    return IMPACT_ORDER.indexOf(violation.impact) > IMPACT_ORDER.indexOf(highest) ? violation.impact : highest;
+  }, 'minor');
+};
+
+/**
+ * Groups the violations by WCAG success criterion and scores them: critical failures weigh as high severity,
+ * serious ones as medium, the others as low. An accessibility statement is expected under the
+ * Web Accessibility Directive and the European Accessibility Act.
+ */
+export const analyzeAccessibility = (
+  evidence: AccessibilityEvidence,
+  statement: { found: boolean; url?: string }
+): AccessibilityAnalysis => {
+  const grouped = new Map<string, AccessibilityViolation[]>();
+  const add = (criterion: string, violation: AccessibilityViolation) => {
+    grouped.set(criterion, (grouped.get(criterion) || []).concat(violation));
+  };
+  evidence.violations.forEach(violation => {
+    const criterion = getCriterion(violation);
+    if (criterion) add(criterion, toViolation(violation));
+  });
+  getKeyboardViolations(evidence.keyboard).forEach(([criterion, violation]) => add(criterion, violation));
+
+  const criteria: WcagCriterionFinding[] = Array.from(grouped.entries())
+    .map(([criterion, violations]) => ({
+      criterion,
+      name: criterion === LANDMARKS_KEY ? 'Landmarks (best practice)' : CRITERIA[criterion].name,
+      level: criterion === LANDMARKS_KEY ? null : CRITERIA[criterion].level,
+      violations
+    }))
+    .sort((a, b) => a.criterion.localeCompare(b.criterion, undefined, { numeric: true }));
+
+  const issues: ComplianceIssue[] = criteria.map(finding => {
+    const impact = highestImpact(finding.violations);
+    return {
+      ruleId: `wcag-${finding.criterion}`,
+      ruleName: finding.level ? `${finding.criterion} ${finding.name} (${finding.level})` : finding.name,
+      severity: impact === 'critical' ? 'high' : impact === 'serious' ? 'medium' : 'low',
+      description: finding.violations.map(violation => `${violation.description} (${violation.nodeCount} element(s))`).join('; '),
+      recommendation: `Fix the elements flagged for ${finding.violations.map(violation => violation.ruleId).join(', ')}, then re-test with a screen reader and the keyboard`
+    };
+  });
+
+  if (!statement.found) {
+    issues.push({
+      ruleId: 'access-1-statement',
+      ruleName: 'No accessibility statement',
+      severity: 'medium',
+      description: 'No accessibility statement was found on the site',
+      recommendation: 'Publish an accessibility statement describing the WCAG conformance level, known limitations and a contact for accessibility issues'
+    });
+  }
+
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'Accessibility',
+    sectionText: criteria.map(finding => `${finding.criterion} ${finding.name}: ${finding.violations.map(violation => violation.ruleId).join(', ')}`).join('\n'),
+    compliant,
+    score,
+    issues,
+    details: {
+      pageUrl: evidence.pageUrl,
+      engine: evidence.engine,
+      criteria,
+      keyboard: evidence.keyboard,
+      statementFound: statement.found,
+      statementUrl: statement.url
+    }
+  };
+};
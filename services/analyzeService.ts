@@ -2,13 +2,16 @@ import { AnalysisResult } from '@/types';
 import axios from 'axios';
 
 // Main analysis function - uses API route to avoid client-side Playwright issues
-export const analyzeWebsite = async (url: string): Promise<AnalysisResult> => {
+export const analyzeWebsite = async (
+  url: string,
+  options: { evidence?: boolean; profiles?: string[] } = {}
+): Promise<AnalysisResult> => {
   try {
     // Simulate loading delay for demo
     await new Promise(resolve => setTimeout(resolve, 1000));
     
     // Call the API route instead of directly using Playwright
-    const response = await axios.post('/api/analyze', { url });
+    const response = await axios.post('/api/analyze', { url, evidence: options.evidence, profiles: options.profiles });
     
     // Return the analysis results with type assertion
     return response.data as AnalysisResult;
@@ -0,0 +1,292 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { existsSync } from 'fs';
+import { getEgressProxy } from './egressProxyService';
+import { protectContext } from './urlSafetyService';
+
+const execAsync = promisify(exec);
+
+// Browsers kept running, and scans allowed to run at the same time across them
+const POOL_SIZE = Math.max(Number(process.env.BROWSER_POOL_SIZE) || 1, 1);
+const MAX_CONCURRENT_SCANS = Math.max(Number(process.env.BROWSER_POOL_MAX_SCANS) || 2, 1);
+
+// How long a scan waits for a free slot before the request is turned down
+const ACQUIRE_TIMEOUT = Number(process.env.BROWSER_POOL_ACQUIRE_TIMEOUT_MS) || 120000;
+
+// Chromium slowly grows in memory, so browsers are replaced after this many scans
+const MAX_SESSIONS_PER_BROWSER = 50;
+
+const HEALTH_CHECK_INTERVAL = 60000;
+const HEALTH_CHECK_TIMEOUT = 10000;
+const SHUTDOWN_TIMEOUT = 30000;
+
+const LAUNCH_OPTIONS = {
+  headless: true,
+  timeout: 30000,
+  args: ['--disable-gpu', '--disable-dev-shm-usage', '--disable-setuid-sandbox', '--no-sandbox']
+};
+
+interface PooledBrowser {
+  browser: Browser;
+  activeSessions: number;
+  totalSessions: number;
+  retired: boolean;
+}
+
+interface WaitingScan {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A scan's view of the pool: every context it opens blocks unsafe URLs and is closed when the scan ends
+ */
+export interface BrowserSession {
+  newContext: (options?: BrowserContextOptions) => Promise<BrowserContext>;
+}
+
+const slots: (Promise<PooledBrowser> | null)[] = new Array(POOL_SIZE).fill(null);
+const waitingScans: WaitingScan[] = [];
+let activeScans = 0;
+let shuttingDown = false;
+let preflightError: string | null = null;
+let healthCheckTimer: NodeJS.Timeout | null = null;
+
+const launchPooledBrowser = async (): Promise<PooledBrowser> => {
+  // Every connection, loopback included, goes through the proxy, which only reaches public addresses
+  const browser = await chromium.launch({ ...LAUNCH_OPTIONS, proxy: { server: await getEgressProxy() } });
+  const pooled: PooledBrowser = { browser, activeSessions: 0, totalSessions: 0, retired: false };
+  browser.on('disconnected', () => {
+    if (!pooled.retired) console.error('Pooled browser disconnected unexpectedly');
+    pooled.retired = true;
+  });
+  console.log(`Launched pooled browser (Chromium ${browser.version()})`);
+  return pooled;
+};
+
+const closePooledBrowser = async (pooled: PooledBrowser): Promise<void> => {
+  pooled.retired = true;
+  await pooled.browser.close().catch(error => console.error('Error closing pooled browser:', error));
+};
+
+/**
+ * Returns the browser of a slot, launching or replacing it when it is missing, crashed or worn out
+ */
+const getSlotBrowser = async (index: number): Promise<PooledBrowser | null> => {
+  let slot = slots[index];
+  if (!slot) {
+    slot = launchPooledBrowser();
+    slots[index] = slot;
+  }
+
+  try {
+    const pooled = await slot;
+    if (!pooled.retired && pooled.browser.isConnected() && pooled.totalSessions < MAX_SESSIONS_PER_BROWSER) {
+      return pooled;
+    }
+    // Worn out browsers finish their running scans before being closed
+    pooled.retired = true;
+    if (pooled.activeSessions === 0) await closePooledBrowser(pooled);
+  } catch (error) {
+    console.error('Error launching pooled browser:', error);
+  }
+
+  // Another caller may already have replaced the slot
+  if (slots[index] === slot) slots[index] = null;
+  return null;
+};
+
+/**
+ * Picks the least busy healthy browser, replacing unhealthy ones on the way
+ */
+const acquireBrowser = async (): Promise<PooledBrowser> => {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const candidates = (await Promise.all(slots.map((_, index) => getSlotBrowser(index))))
+      .filter((pooled): pooled is PooledBrowser => !!pooled)
+      .sort((a, b) => a.activeSessions - b.activeSessions);
+    if (candidates.length) return candidates[0];
+  }
+  throw new Error('No healthy browser is available');
+};
+
+const acquireScanSlot = (): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (activeScans < MAX_CONCURRENT_SCANS) {
+      activeScans++;
+      resolve();
+      return;
+    }
+
+    const waiting: WaitingScan = {
+      resolve: () => {
+        clearTimeout(timer);
+        activeScans++;
+        resolve();
+      },
+      reject: (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    };
+    const timer = setTimeout(() => {
+      waitingScans.splice(waitingScans.indexOf(waiting), 1);
+      reject(new Error(`All ${MAX_CONCURRENT_SCANS} scan slots are busy, please try again later`));
+    }, ACQUIRE_TIMEOUT);
+    waitingScans.push(waiting);
+  });
+};
+
+const releaseScanSlot = () => {
+  activeScans--;
+  waitingScans.shift()?.resolve();
+};
+
+/**
+ * Checks that idle browsers still respond by opening a context, and replaces those that don't
+ */
+const checkPoolHealth = async (): Promise<void> => {
+  await Promise.all(slots.map(async (slot, index) => {
+    if (!slot) return;
+    let pooled: PooledBrowser;
+    try {
+      pooled = await slot;
+    } catch (error) {
+      if (slots[index] === slot) slots[index] = null;
+      return;
+    }
+    if (pooled.activeSessions > 0 || pooled.retired) return;
+
+    try {
+      const probe = pooled.browser.newContext().then(context => context.close());
+      await Promise.race([
+        probe,
+        new Promise((_, reject) => setTimeout(() => reject(new Error('Health check timed out')), HEALTH_CHECK_TIMEOUT))
+      ]);
+    } catch (error) {
+      console.error('Pooled browser failed its health check, replacing it:', error);
+      if (slots[index] === slot) slots[index] = null;
+      await closePooledBrowser(pooled);
+    }
+  }));
+};
+
+const startHealthChecks = () => {
+  if (healthCheckTimer) return;
+  healthCheckTimer = setInterval(() => {
+    checkPoolHealth().catch(error => console.error('Error checking browser pool health:', error));
+  }, HEALTH_CHECK_INTERVAL);
+  // The health checks alone must not keep the process alive
+  healthCheckTimer.unref();
+};
+
+/**
+ * Whether scans can use a browser: Chromium is installed and the pool is not shutting down
+ */
+export const isBrowserAvailable = (): boolean => !preflightError && !shuttingDown;
+
+/**
+ * Runs a scan with its own browser contexts, waiting for a free slot when the pool is busy.
+ * Contexts opened by the scan are closed when it ends, whatever its outcome.
+ */
+export const withBrowserSession = async <T>(task: (session: BrowserSession) => Promise<T>): Promise<T> => {
+  if (shuttingDown) {
+    throw new Error('The browser pool is shutting down');
+  }
+  if (preflightError) {
+    throw new Error(`The browser is not available: ${preflightError}. Run: npx playwright install chromium --with-deps`);
+  }
+
+  startHealthChecks();
+  await acquireScanSlot();
+
+  let pooled: PooledBrowser | null = null;
+  let ended = false;
+  const contexts: BrowserContext[] = [];
+  try {
+    const acquired = await acquireBrowser();
+    acquired.activeSessions++;
+    acquired.totalSessions++;
+    pooled = acquired;
+
+    return await task({
+      newContext: async (options?: BrowserContextOptions) => {
+        if (ended) throw new Error('The browser session has ended');
+        // Sites with an invalid certificate are still scanned, the security audit reports the certificate itself.
+        // Contexts sending the secrets or cookies of a login opt out.
+        const context = await acquired.browser.newContext({ ignoreHTTPSErrors: true, ...options });
+        contexts.push(context);
+        // Scanned pages must not reach private networks, through navigations, redirects or resources
+        await protectContext(context);
+        return context;
+      }
+    });
+  } finally {
+    ended = true;
+    await Promise.all(contexts.map(context =>
+      context.close().catch(error => console.error('Error closing browser context:', error))
+    ));
+    if (pooled) {
+      pooled.activeSessions--;
+      if (pooled.retired && pooled.activeSessions === 0) await closePooledBrowser(pooled);
+    }
+    releaseScanSlot();
+  }
+};
+
+/**
+ * Stops accepting scans, lets running ones finish for a while, then closes every browser
+ */
+export const shutdownBrowserPool = async (): Promise<void> => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log('Shutting down the browser pool...');
+
+  if (healthCheckTimer) clearInterval(healthCheckTimer);
+  waitingScans.splice(0).forEach(waiting => waiting.reject(new Error('The browser pool is shutting down')));
+
+  const deadline = Date.now() + SHUTDOWN_TIMEOUT;
+  while (activeScans > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  if (activeScans > 0) console.error(`Closing the browser pool with ${activeScans} scan(s) still running`);
+
+  await Promise.all(slots.map(async slot => {
+    const pooled = await slot?.catch(() => null);
+    if (pooled) await closePooledBrowser(pooled);
+  }));
+};
+
+/**
+ * Startup check run once per server: installs Chromium if it is missing, warms the pool up
+ * and closes the browsers when the server stops. Scans never install anything themselves.
+ */
+export const preflightBrowserPool = async (): Promise<void> => {
+  if (!existsSync(chromium.executablePath())) {
+    if (process.env.PLAYWRIGHT_SKIP_INSTALL === 'true') {
+      preflightError = 'Chromium is not installed';
+      console.error(`Playwright Chromium not found at ${chromium.executablePath()}, scans are disabled`);
+      return;
+    }
+
+    console.log('Playwright Chromium not found, installing... (one-time setup)');
+    try {
+      await execAsync('npx playwright install chromium --with-deps');
+      console.log('Playwright installed successfully');
+    } catch (error) {
+      preflightError = `installing Chromium failed (${error instanceof Error ? error.message : String(error)})`;
+      console.error('Error installing Playwright Chromium:', error);
+      return;
+    }
+  }
+
+  // Launch the browsers now so that the first scan doesn't pay for the cold start
+  await Promise.all(slots.map((_, index) => getSlotBrowser(index)));
+  startHealthChecks();
+
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      shutdownBrowserPool().finally(() => process.exit(0));
+    });
+  }
+};
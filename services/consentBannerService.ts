@@ -0,0 +1,339 @@
+import type { Page } from 'playwright';
+import { ComplianceIssue, ConsentBannerAnalysis, ConsentBannerButton, ConsentButtonRole } from '@/types';
+import { scoreIssues } from './scoringService';
+
+// Button labels in order of preference, so that "reject all" wins over a plain "reject"
+export const REJECT_LABELS = [
+  'reject all', 'decline all', 'deny all', 'refuse all', 'reject', 'decline', 'deny', 'refuse',
+  'only necessary', 'necessary only', 'essential only', 'use necessary cookies only',
+  'tout refuser', 'refuser', 'continuer sans accepter', 'alle ablehnen', 'ablehnen',
+  'nur notwendige', 'rechazar todo', 'rechazar', 'rifiuta tutto', 'rifiuta',
+  'alles weigeren', 'weigeren', 'afwijzen', 'rejeitar', 'odrzuć'
+];
+
+export const ACCEPT_LABELS = [
+  'accept all', 'allow all', 'agree to all', 'accept', 'agree', 'allow', 'i agree', 'got it',
+  'tout accepter', 'accepter', 'j\'accepte', 'alle akzeptieren', 'akzeptieren', 'zustimmen',
+  'aceptar todo', 'aceptar', 'accetta tutto', 'accetta', 'alles accepteren', 'accepteren',
+  'aceitar', 'akceptuj', 'ok'
+];
+
+const SETTINGS_LABELS = [
+  'settings', 'preferences', 'customize', 'customise', 'manage', 'options', 'more options',
+  'paramétrer', 'personnaliser', 'préférences', 'einstellungen', 'anpassen', 'configurar',
+  'personalizar', 'preferenze', 'personalizza', 'instellingen', 'aanpassen'
+];
+
+// Root elements of widely used consent management platforms
+const CMP_SELECTORS: [string, string][] = [
+  ['OneTrust', '#onetrust-banner-sdk'],
+  ['Cookiebot', '#CybotCookiebotDialog'],
+  ['Didomi', '#didomi-notice, #didomi-popup'],
+  ['Quantcast Choice', '.qc-cmp2-container'],
+  ['Usercentrics', '#usercentrics-root, #usercentrics-cmp-ui'],
+  ['TrustArc', '#truste-consent-track'],
+  ['Axeptio', '#axeptio_overlay'],
+  ['iubenda', '#iubenda-cs-banner'],
+  ['Complianz', '.cmplz-cookiebanner'],
+  ['CookieYes', '.cky-consent-container'],
+  ['Osano', '.osano-cm-dialog'],
+  ['Klaro', '.klaro .cookie-notice, .klaro .cookie-modal'],
+  ['tarteaucitron', '#tarteaucitronAlertBig, #tarteaucitronRoot'],
+  ['Borlabs Cookie', '#BorlabsCookieBox']
+];
+
+// A reject button smaller than this share of the accept button's area is considered less prominent
+const MIN_REJECT_AREA_RATIO = 0.7;
+
+// WCAG AA minimum contrast ratio for normal text
+const MIN_TEXT_CONTRAST = 4.5;
+
+interface BannerInspection {
+  cmp: string;
+  text: string;
+  buttons: ConsentBannerButton[];
+  preTickedPurposes: string[];
+}
+
+interface InspectionArgs {
+  cmpSelectors: [string, string][];
+  labels: Record<Exclude<ConsentButtonRole, 'other'>, string[]>;
+  isMainFrame: boolean;
+}
+
+/**
+ * Runs inside the page: locates the consent banner and measures its buttons.
+ * Must stay self-contained since Playwright serializes it into the browser.
+ */
+const inspectConsentBanner = ({ cmpSelectors, labels, isMainFrame }: InspectionArgs): BannerInspection | null => {
+  const KEYWORDS = /cookie|consent|privacy|tracking|traceurs|datenschutz|privacidad|riservatezza/i;
+
+  const isVisible = (element: Element) => {
+    const style = window.getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0' &&
+      rect.width > 0 && rect.height > 0;
+  };
+
+  // querySelectorAll that also descends into open shadow roots (Usercentrics renders in one)
+  const queryAllDeep = (root: Element | Document | ShadowRoot, selector: string): Element[] => {
+    const results: Element[] = Array.from(root.querySelectorAll(selector));
+    const all = root.querySelectorAll('*');
+    for (let i = 0; i < all.length; i++) {
+      const shadowRoot = all[i].shadowRoot;
+      if (shadowRoot) {
+        const nested = queryAllDeep(shadowRoot, selector);
+        for (let j = 0; j < nested.length; j++) results.push(nested[j]);
+      }
+    }
+    return results;
+  };
+
+  // Locate the banner: known CMPs first, then fixed-position containers mentioning cookies
+  let banner: Element | null = null;
+  let cmp = 'unknown';
+  for (let i = 0; i < cmpSelectors.length && !banner; i++) {
+    const matches = queryAllDeep(document, cmpSelectors[i][1]);
+    for (let j = 0; j < matches.length; j++) {
+      const match = matches[j];
+      if (isVisible(match) || (match.shadowRoot && match.shadowRoot.childElementCount > 0)) {
+        banner = match;
+        cmp = cmpSelectors[i][0];
+        break;
+      }
+    }
+  }
+
+  if (!banner) {
+    const candidates = Array.from(document.querySelectorAll('div, section, aside, dialog, form'));
+    for (let i = 0; i < candidates.length; i++) {
+      const candidate = candidates[i] as HTMLElement;
+      const position = window.getComputedStyle(candidate).position;
+      if ((position === 'fixed' || position === 'sticky') && isVisible(candidate) &&
+          KEYWORDS.test(candidate.innerText || '') && candidate.querySelector('button, a, [role="button"]')) {
+        banner = candidate;
+        break;
+      }
+    }
+  }
+
+  // CMPs served from their own iframe fill the whole document
+  if (!banner && !isMainFrame && KEYWORDS.test(document.body?.innerText || '') &&
+      document.querySelector('button, [role="button"]')) {
+    banner = document.body;
+  }
+
+  if (!banner) return null;
+
+  const searchRoot: Element | ShadowRoot = banner.shadowRoot || banner;
+
+  // Colour helpers (WCAG 2.1 relative luminance and contrast ratio)
+  const parseColor = (value: string): number[] | null => {
+    const match = value.match(/rgba?\(([^)]+)\)/);
+    if (!match) return null;
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+    return [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+  };
+
+  const effectiveBackground = (element: Element | null): number[] => {
+    let current: Element | null = element;
+    while (current) {
+      const color = parseColor(window.getComputedStyle(current).backgroundColor);
+      if (color && color[3] > 0) return color;
+      current = current.parentElement || ((current.getRootNode() as ShadowRoot).host ?? null);
+    }
+    return [255, 255, 255, 1];
+  };
+
+  const luminance = (color: number[]) => {
+    const channels = [color[0], color[1], color[2]].map(channel => {
+      const value = channel / 255;
+      return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    });
+    return 0.2126 * channels[0] + 0.7152 * channels[1] + 0.0722 * channels[2];
+  };
+
+  const contrast = (first: number[], second: number[]) => {
+    const lighter = Math.max(luminance(first), luminance(second));
+    const darker = Math.min(luminance(first), luminance(second));
+    return Math.round(((lighter + 0.05) / (darker + 0.05)) * 100) / 100;
+  };
+
+  const normalize = (text: string) => ` ${text.toLowerCase().replace(/[.,!?:;()"«»]/g, ' ').replace(/\s+/g, ' ').trim()} `;
+
+  const classify = (text: string): ConsentButtonRole => {
+    const normalized = normalize(text);
+    if (labels.reject.some(label => normalized.includes(` ${label} `))) return 'reject';
+    if (labels.accept.some(label => normalized.includes(` ${label} `))) return 'accept';
+    if (labels.settings.some(label => normalized.includes(` ${label} `))) return 'settings';
+    return 'other';
+  };
+
+  const bannerBackground = effectiveBackground(banner === document.body ? document.body : banner);
+
+  const buttons: ConsentBannerButton[] = [];
+  const buttonElements = queryAllDeep(searchRoot, 'button, a, [role="button"], input[type="button"], input[type="submit"]');
+  for (let i = 0; i < buttonElements.length; i++) {
+    const element = buttonElements[i] as HTMLInputElement;
+    if (!isVisible(element)) continue;
+
+    const text = (element.innerText || element.value || element.getAttribute('aria-label') || '').trim();
+    if (!text || text.length > 60) continue;
+
+    const style = window.getComputedStyle(element);
+    const rect = element.getBoundingClientRect();
+    const background = effectiveBackground(element);
+    const foreground = parseColor(style.color) || [0, 0, 0, 1];
+
+    buttons.push({
+      text,
+      role: classify(text),
+      width: Math.round(rect.width),
+      height: Math.round(rect.height),
+      fontSize: parseFloat(style.fontSize) || 0,
+      color: style.color,
+      backgroundColor: `rgb(${background[0]}, ${background[1]}, ${background[2]})`,
+      textContrast: contrast(foreground, background),
+      backgroundContrast: contrast(background, bannerBackground),
+      isLink: element.tagName === 'A' && !element.getAttribute('role')
+    });
+  }
+
+  // Purpose toggles that are switched on before the visitor made any choice
+  const preTickedPurposes: string[] = [];
+  const toggles = queryAllDeep(searchRoot, 'input[type="checkbox"], [role="switch"], [role="checkbox"]');
+  for (let i = 0; i < toggles.length; i++) {
+    const toggle = toggles[i] as HTMLInputElement;
+    const checked = toggle.tagName === 'INPUT' ? toggle.checked : toggle.getAttribute('aria-checked') === 'true';
+    const disabled = toggle.disabled || toggle.getAttribute('aria-disabled') === 'true';
+    // Disabled toggles are the "strictly necessary" category, which needs no consent
+    if (!checked || disabled) continue;
+
+    const label = (toggle.id && document.querySelector(`label[for="${CSS.escape(toggle.id)}"]`)) || toggle.closest('label');
+    const labelText = (toggle.getAttribute('aria-label') || (label as HTMLElement | null)?.innerText ||
+      (toggle.parentElement as HTMLElement | null)?.innerText || toggle.name || 'Unnamed purpose').trim();
+    preTickedPurposes.push(labelText.substring(0, 80));
+  }
+
+  return {
+    cmp,
+    text: ((banner as HTMLElement).innerText || (searchRoot as ShadowRoot).textContent || '').trim().substring(0, 3000),
+    buttons,
+    preTickedPurposes
+  };
+};
+
+/**
+ * Compares accept and reject buttons and flags dark patterns (CNIL and EDPB guidelines on consent banners)
+ */
+const evaluateConsentBanner = (inspection: BannerInspection): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+  const accept = inspection.buttons.find(button => button.role === 'accept');
+  const reject = inspection.buttons.find(button => button.role === 'reject');
+
+  if (accept && !reject) {
+    const hasSettings = inspection.buttons.some(button => button.role === 'settings');
+    issues.push({
+      ruleId: 'eprivacy-2-first-layer-reject',
+      ruleName: 'No "reject" option on the first layer',
+      severity: 'high',
+      description: hasSettings
+        ? `The banner offers "${accept.text}" directly, but refusing requires going through the settings`
+        : `The banner offers "${accept.text}" but no option to refuse`,
+      recommendation: 'Place a "reject all" button next to the "accept all" button on the first layer of the banner'
+    });
+  }
+
+  if (accept && reject) {
+    const acceptArea = accept.width * accept.height;
+    const rejectArea = reject.width * reject.height;
+    const asymmetries: string[] = [];
+
+    if (acceptArea > 0 && rejectArea / acceptArea < MIN_REJECT_AREA_RATIO) {
+      asymmetries.push(`the reject button is ${Math.round((1 - rejectArea / acceptArea) * 100)}% smaller`);
+    }
+    if (reject.isLink && !accept.isLink) {
+      asymmetries.push('refusing is a text link while accepting is a button');
+    }
+    if (accept.backgroundContrast >= 1.5 && reject.backgroundContrast < 1.2) {
+      asymmetries.push('the accept button is filled with a contrasting colour while the reject button blends into the banner');
+    }
+    if (reject.fontSize > 0 && accept.fontSize > 0 && reject.fontSize < accept.fontSize * 0.85) {
+      asymmetries.push(`the reject label uses a smaller font (${reject.fontSize}px vs ${accept.fontSize}px)`);
+    }
+
+    if (asymmetries.length > 0) {
+      issues.push({
+        ruleId: 'eprivacy-2-asymmetric-buttons',
+        ruleName: 'Accept and reject options are not equally prominent',
+        severity: asymmetries.length > 1 ? 'high' : 'medium',
+        description: `"${accept.text}" is visually favoured over "${reject.text}": ${asymmetries.join('; ')}`,
+        recommendation: 'Give the accept and reject buttons the same size, shape, colour and visual weight'
+      });
+    }
+
+    if (reject.textContrast < MIN_TEXT_CONTRAST) {
+      issues.push({
+        ruleId: 'eprivacy-2-reject-contrast',
+        ruleName: 'Reject option is hard to read',
+        severity: 'medium',
+        description: `The "${reject.text}" label has a contrast ratio of ${reject.textContrast}:1, below the ${MIN_TEXT_CONTRAST}:1 minimum`,
+        recommendation: 'Increase the contrast of the reject label so it is as legible as the accept label'
+      });
+    }
+  }
+
+  if (inspection.preTickedPurposes.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-preticked',
+      ruleName: 'Pre-ticked consent purposes',
+      severity: 'high',
+      description: `These purposes are enabled before the visitor made a choice: ${inspection.preTickedPurposes.slice(0, 10).join(', ')}`,
+      recommendation: 'Leave every non-essential purpose switched off by default. Consent must be an affirmative action'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Locates the consent banner of an untouched page and analyses its design for dark patterns.
+ * Returns null when no banner was found.
+ */
+export const analyzeConsentBanner = async (page: Page): Promise<ConsentBannerAnalysis | null> => {
+  const args: InspectionArgs = {
+    cmpSelectors: CMP_SELECTORS,
+    labels: { accept: ACCEPT_LABELS, reject: REJECT_LABELS, settings: SETTINGS_LABELS },
+    isMainFrame: true
+  };
+
+  let inspection: BannerInspection | null = null;
+  for (const frame of page.frames()) {
+    try {
+      inspection = await frame.evaluate(inspectConsentBanner, { ...args, isMainFrame: frame === page.mainFrame() });
+    } catch (error) {
+      // Detached or cross-origin frames can't be inspected
+      continue;
+    }
+    if (inspection) break;
+  }
+
+  if (!inspection) return null;
+
+  const issues = evaluateConsentBanner(inspection);
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'Consent Banner',
+    sectionText: inspection.text,
+    compliant,
+    score,
+    issues,
+    details: {
+      cmp: inspection.cmp,
+      hasFirstLayerReject: inspection.buttons.some(button => button.role === 'reject'),
+      buttons: inspection.buttons,
+      preTickedPurposes: inspection.preTickedPurposes
+    }
+  };
+};
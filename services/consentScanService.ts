@@ -0,0 +1,288 @@
+import type { Locator, Page } from 'playwright';
+import {
+  ComplianceIssue,
+  ConsentBannerAnalysis,
+  ConsentScanResult,
+  ConsentState,
+  ConsentStateObservation,
+  PreConsentTracking,
+  StorageAccessReport,
+  TcfAnalysis,
+  TcfStateObservation,
+  VendorInventory
+} from '@/types';
+import { ACCEPT_LABELS, REJECT_LABELS, analyzeConsentBanner } from './consentBannerService';
+import type { BrowserSession } from './browserPoolService';
+import {
+  startNetworkCapture,
+  collectTrackingSnapshot,
+  evaluatePreConsentTracking,
+  getDistinctHosts,
+  TrackingSnapshot
+} from './trackingService';
+import { buildVendorInventory } from './vendorService';
+import { evaluateStorageAccess, RecordedStorageAccess, startStorageCapture } from './storageAccessService';
+import { evaluateTcf, readTcfState } from './tcfService';
+import { collectSecurityEvidence, SecurityEvidence, startSecurityCapture } from './securityService';
+import { AccessibilityEvidence, runAccessibilityAudit } from './accessibilityService';
+import { captureScreenshot, EvidenceRecorder } from './evidenceService';
+import { throttleHost } from './politenessService';
+
+const CONSENT_BUTTON_SELECTOR = 'button, [role="button"], a, input[type="button"], input[type="submit"]';
+
+// Consent buttons have short labels, longer texts are usually containers or paragraphs
+const MAX_BUTTON_LABEL_LENGTH = 60;
+
+export interface ConsentButton {
+  locator: Locator;
+  text: string;
+}
+
+interface StateScan {
+  observation: ConsentStateObservation;
+  snapshot: TrackingSnapshot;
+  storageAccesses: RecordedStorageAccess[];
+  tcf: TcfStateObservation;
+  security: SecurityEvidence | null;
+  accessibility: AccessibilityEvidence | null;
+  consentBanner: ConsentBannerAnalysis | null;
+}
+
+/**
+ * Finds the best matching consent button in the page and its frames (CMPs often live in iframes)
+ */
+export const findConsentButton = async (page: Page, action: 'accept' | 'reject'): Promise<ConsentButton | null> => {
+  const labels = action === 'reject' ? REJECT_LABELS : ACCEPT_LABELS;
+  const excludedLabels = action === 'accept' ? REJECT_LABELS : [];
+  let best: { locator: Locator; text: string; rank: number } | null = null;
+
+  for (const frame of page.frames()) {
+    const candidates = frame.locator(CONSENT_BUTTON_SELECTOR);
+    let texts: string[];
+    try {
+      texts = await candidates.evaluateAll(elements => elements.map(element => {
+        const htmlElement = element as HTMLInputElement;
+        return (htmlElement.innerText || htmlElement.value || element.getAttribute('aria-label') || '').trim();
+      }));
+    } catch (error) {
+      // Detached or cross-origin frames can't be inspected
+      continue;
+    }
+
+    for (let index = 0; index < texts.length; index++) {
+      const text = texts[index].toLowerCase().replace(/[.,!?:;()"«»]/g, ' ').replace(/\s+/g, ' ').trim();
+      if (!text || text.length > MAX_BUTTON_LABEL_LENGTH) continue;
+      if (excludedLabels.some(label => ` ${text} `.includes(` ${label} `))) continue;
+
+      for (let labelIndex = 0; labelIndex < labels.length; labelIndex++) {
+        const label = labels[labelIndex];
+        // Exact matches rank ahead of whole-word partial ones for the same label
+        const rank = text === label ? labelIndex * 2 : ` ${text} `.includes(` ${label} `) ? labelIndex * 2 + 1 : -1;
+        if (rank >= 0 && (!best || rank < best.rank)) {
+          best = { locator: candidates.nth(index), text: texts[index], rank };
+        }
+      }
+    }
+  }
+
+  return best ? { locator: best.locator, text: best.text } : null;
+};
+
+/**
+ * Loads the site in a fresh context and, for 'reject' and 'accept', clicks the matching banner button.
+ * With an evidence recorder, the context's traffic is saved as a HAR and the untouched landing page is screenshotted.
+ */
+const scanConsentState = async (
+  session: BrowserSession,
+  url: string,
+  state: ConsentState,
+  evidence: EvidenceRecorder | null
+): Promise<StateScan> => {
+  // Response bodies are left out, the HAR records which requests were made and what they carried
+  const harPath = await evidence?.reserveFile(`traffic-${state}.har`, 'har', `Network traffic, consent state "${state}"`, url);
+  const context = await session.newContext(harPath ? { recordHar: { path: harPath, content: 'omit' } } : undefined);
+
+  try {
+    const page = await context.newPage();
+    const capture = startNetworkCapture(page, url);
+    const storage = await startStorageCapture(page);
+    // The site's transport security is read on the first, untouched load
+    const securityCapture = state === 'none' ? startSecurityCapture(page) : null;
+
+    const response = await throttleHost(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 }));
+
+    let buttonFound = state === 'none';
+    let buttonText: string | undefined;
+    let sinceRequest = 0;
+    let sinceStorageAccess = 0;
+
+    if (state !== 'none') {
+      // Let the CMP render before looking for its buttons
+      await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+
+      const button = await findConsentButton(page, state);
+      if (button) {
+        buttonText = button.text;
+        try {
+          // Only what happens after the choice is attributed to it
+          sinceRequest = capture.requests.length;
+          sinceStorageAccess = storage.accesses.length;
+          await button.locator.click({ timeout: 3000 });
+          buttonFound = true;
+
+          // Reload so that tags which only fire on the next page view are caught too
+          await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+          await throttleHost(url, () => page.reload({ waitUntil: 'domcontentloaded', timeout: 30000 }));
+        } catch (error) {
+          console.error(`Error clicking ${state} button on ${url}:`, error);
+        }
+      }
+    }
+
+    const snapshot = await collectTrackingSnapshot(page, url, capture, sinceRequest);
+    capture.stop();
+    // The TCF, banner and accessibility checks below read storage themselves
+    storage.stop();
+    const tcf = await readTcfState(page, state);
+    const security = securityCapture ? await collectSecurityEvidence(page, response, securityCapture, snapshot.cookies) : null;
+    if (evidence && state === 'none') await captureScreenshot(evidence, page, 'landing-page.png', 'Landing page with its consent banner, full page');
+
+    // The banner is only in its initial state when nothing has been clicked
+    const consentBanner = state === 'none' ? await analyzeConsentBanner(page) : null;
+    // Last, since tabbing through the page moves the focus around
+    const accessibility = state === 'none'
+      ? await runAccessibilityAudit(page).catch(error => {
+        console.error(`Error auditing the accessibility of ${url}:`, error);
+        return null;
+      })
+      : null;
+
+    return {
+      snapshot,
+      storageAccesses: storage.accesses.slice(sinceStorageAccess),
+      tcf,
+      security,
+      accessibility,
+      consentBanner,
+      observation: {
+        state,
+        buttonFound,
+        buttonText,
+        cookies: snapshot.cookies,
+        thirdPartyHosts: getDistinctHosts(snapshot.thirdPartyRequests),
+        trackingHosts: getDistinctHosts(snapshot.thirdPartyRequests, true)
+      }
+    };
+  } finally {
+    await context.close().catch(err => console.error('Error closing consent scan context:', err));
+  }
+};
+
+/**
+ * Compares the three consent states and reports choices that are not respected (eprivacy-2)
+ */
+const evaluateConsentScan = (states: ConsentStateObservation[]): ConsentScanResult => {
+  const [none, reject, accept] = states;
+  const issues: ComplianceIssue[] = [];
+
+  const trackingCookiesAfterReject = reject.buttonFound
+    ? reject.cookies.filter(cookie => cookie.tracking).map(cookie => cookie.name)
+    : [];
+  const trackingHostsAfterReject = reject.buttonFound ? reject.trackingHosts : [];
+
+  const rejectCookieNames = new Set(reject.cookies.map(cookie => cookie.name));
+  const cookiesAddedByAccept = accept.cookies
+    .map(cookie => cookie.name)
+    .filter(name => !rejectCookieNames.has(name));
+  const hostsAddedByAccept = accept.thirdPartyHosts.filter(host => !reject.thirdPartyHosts.includes(host));
+
+  if (trackingCookiesAfterReject.length > 0 || trackingHostsAfterReject.length > 0) {
+    const evidence = [
+      ...trackingCookiesAfterReject.map(name => `cookie ${name}`),
+      ...trackingHostsAfterReject.map(host => `requests to ${host}`)
+    ];
+    issues.push({
+      ruleId: 'eprivacy-2',
+      ruleName: 'Trackers active after "reject all"',
+      severity: 'high',
+      description: `Tracking continued after the visitor clicked "${reject.buttonText}": ${evidence.slice(0, 10).join(', ')}`,
+      recommendation: 'Make sure a refusal disables every non-essential cookie and tag, including on subsequent page views'
+    });
+  }
+
+  if (!reject.buttonFound && accept.buttonFound) {
+    issues.push({
+      ruleId: 'eprivacy-2-no-reject',
+      ruleName: 'No way to decline cookies',
+      severity: 'high',
+      description: `The consent banner offers "${accept.buttonText}" but no button to refuse non-essential cookies was found`,
+      recommendation: 'Offer a "reject all" option that is as easy to use as the "accept all" option'
+    });
+  }
+
+  if (!reject.buttonFound && !accept.buttonFound && none.trackingHosts.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-1-no-banner',
+      ruleName: 'No consent banner detected',
+      severity: 'high',
+      description: 'The website contacts tracking services but no consent banner with accept or reject buttons was found',
+      recommendation: 'Display a consent banner on the first visit and wait for an affirmative choice before tracking'
+    });
+  }
+
+  return {
+    states,
+    trackingCookiesAfterReject,
+    trackingHostsAfterReject,
+    cookiesAddedByAccept,
+    hostsAddedByAccept,
+    compliant: !issues.some(issue => issue.severity === 'high'),
+    issues
+  };
+};
+
+/**
+ * Loads the site three times in isolated contexts (no interaction, reject all, accept all)
+ * and diffs the cookies and third-party hosts seen in each state. The vendors behind those hosts
+ * are listed in an inventory, storage and fingerprinting API calls are attributed to their scripts,
+ * the IAB TCF consent string of each state is decoded, and the first load's transport security and accessibility
+ * are audited.
+ */
+export const runConsentScan = async (
+  session: BrowserSession,
+  url: string,
+  evidence: EvidenceRecorder | null = null
+): Promise<{
+  consentScan: ConsentScanResult;
+  preConsentTracking: PreConsentTracking;
+  consentBanner: ConsentBannerAnalysis | null;
+  vendorInventory: VendorInventory;
+  storageAccess: StorageAccessReport;
+  tcf: TcfAnalysis | null;
+  security: SecurityEvidence | null;
+  accessibility: AccessibilityEvidence | null;
+}> => {
+  const scans: StateScan[] = [];
+
+  // Sequential on purpose: three concurrent browser contexts are heavy on small servers
+  for (const state of ['none', 'reject', 'accept'] as ConsentState[]) {
+    scans.push(await scanConsentState(session, url, state, evidence));
+  }
+
+  return {
+    consentScan: evaluateConsentScan(scans.map(scan => scan.observation)),
+    preConsentTracking: evaluatePreConsentTracking(scans[0].snapshot),
+    consentBanner: scans[0].consentBanner,
+    vendorInventory: buildVendorInventory(scans.map(scan => ({
+      state: scan.observation.state,
+      requests: scan.snapshot.thirdPartyRequests
+    }))),
+    storageAccess: evaluateStorageAccess(scans.map(scan => ({
+      state: scan.observation.state,
+      accesses: scan.storageAccesses
+    })), url),
+    tcf: evaluateTcf(scans.map(scan => scan.tcf), scans[1].observation.buttonFound),
+    security: scans[0].security,
+    accessibility: scans[0].accessibility
+  };
+};
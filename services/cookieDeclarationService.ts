@@ -0,0 +1,321 @@
+import {
+  ComplianceIssue,
+  CookieDeclarationAnalysis,
+  CookieLifetimeFinding,
+  DeclaredCookie,
+  ObservedCookie
+} from '@/types';
+import { scoreIssues } from './scoringService';
+
+const DAY = 24 * 60 * 60;
+
+// The CNIL's recommended maximum lifetime for consent-based cookies: 13 months
+const MAX_COOKIE_LIFETIME = Math.round(13 * 30.44 * DAY);
+
+// Observed lifetimes are measured after the scan, a declared duration is only exceeded beyond this margin
+const LIFETIME_TOLERANCE = DAY;
+
+type CookieColumn = 'name' | 'provider' | 'purpose' | 'duration';
+
+// Header keywords of cookie tables in the EU's main languages, compared without accents.
+// Columns are matched in this order, so that "Expiry date" is a duration rather than a name.
+const COLUMN_KEYWORDS: [CookieColumn, string[]][] = [
+  ['duration', [
+    'duration', 'expir', 'lifetime', 'lifespan', 'retention', 'storage period', 'duree', 'conservation', 'laufzeit',
+    'speicherdauer', 'ablauf', 'gultigkeit', 'duracion', 'caducidad', 'durata', 'scadenza', 'bewaartermijn', 'looptijd',
+    'duur', 'czas', 'wygasniecia', 'varaktighet', 'lagringstid', 'udlob', 'varighed', 'validade', 'duracao'
+  ]],
+  ['purpose', [
+    'purpose', 'description', 'function', 'usage', 'used for', 'finalite', 'objet', 'zweck', 'beschreibung',
+    'finalidad', 'descripcion', 'finalita', 'scopo', 'descrizione', 'doel', 'omschrijving', 'cel', 'opis', 'syfte',
+    'beskrivning', 'formal', 'beskrivelse', 'finalidade', 'descricao'
+  ]],
+  ['provider', [
+    'provider', 'domain', 'host', 'set by', 'source', 'vendor', 'third party', 'fournisseur', 'emetteur', 'domaine',
+    'anbieter', 'herkunft', 'proveedor', 'dominio', 'fornitore', 'aanbieder', 'dostawca', 'domena', 'leverantor',
+    'udbyder', 'fornecedor'
+  ]],
+  ['name', ['name', 'cookie', 'nom', 'nombre', 'nome', 'naam', 'nazwa', 'namn', 'navn']]
+];
+
+// Keywords start a word, so that "cel" is found in "Cel" but not in "Cancel"
+const COLUMN_PATTERNS = COLUMN_KEYWORDS.map(([key, keywords]): [CookieColumn, RegExp] => [key, new RegExp(`\\b(?:${keywords.join('|')})`)]);
+
+const SESSION_PATTERN = /\b(session|sitzung|seance|sesion|sessione|sessie|sesja|sesji|sessao|sessionen|browsersession)\b/;
+
+// Duration units in the EU's main languages, without accents, and their length in seconds.
+// Words that are also common in prose, such as "time" (Danish hours) or "ar" (Swedish years), are left out.
+const DURATION_UNITS: [number, string[]][] = [
+  [365 * DAY, ['years', 'year', 'yrs', 'yr', 'annees', 'annee', 'ans', 'an', 'jahren', 'jahre', 'jahr', 'anos', 'ano', 'anni', 'anno', 'jaren', 'jaar', 'lata', 'lat', 'roku', 'rok', 'aar']],
+  [30.44 * DAY, ['months', 'month', 'mo', 'mois', 'monaten', 'monate', 'monat', 'meses', 'mes', 'mesi', 'mese', 'maanden', 'maand', 'miesiecy', 'miesiace', 'miesiac', 'manader', 'manad', 'maneder', 'maned']],
+  [7 * DAY, ['weeks', 'week', 'wk', 'semaines', 'semaine', 'wochen', 'woche', 'semanas', 'semana', 'settimane', 'settimana', 'weken', 'tygodni', 'tygodnie', 'tydzien', 'veckor', 'vecka', 'uger', 'uge']],
+  [DAY, ['days', 'day', 'jours', 'jour', 'tagen', 'tage', 'tag', 'dias', 'dia', 'giorni', 'giorno', 'dagen', 'dagar', 'dage', 'dag', 'dni', 'dzien']],
+  [3600, ['hours', 'hour', 'hrs', 'hr', 'heures', 'heure', 'stunden', 'stunde', 'horas', 'hora', 'ore', 'ora', 'uur', 'godzin', 'godziny', 'godzina', 'timmar', 'timme', 'timer']],
+  [60, ['minutes', 'minute', 'mins', 'min', 'minuten', 'minuti', 'minuto', 'minutos', 'minuty', 'minut', 'minuter', 'minutter']],
+  [1, ['seconds', 'second', 'secs', 'sec', 'secondes', 'seconde', 'sekunden', 'sekunde', 'segundos', 'segundo', 'secondi', 'secondo', 'sekundy', 'sekunda', 'sekunder']]
+];
+
+const UNIT_PATTERN = DURATION_UNITS.flatMap(([, units]) => units).sort((a, b) => b.length - a.length).join('|');
+
+// Single-letter units, only read right after their number as in "30d" or "24h"
+const SHORT_UNITS: Record<string, number> = { y: 365 * DAY, d: DAY, h: 3600, s: 1 };
+
+// "1 year", "13 months", "1,5 Jahre" or "30d". Durations written out in words ("one time", "a day") are
+// left out, they can't be told apart from prose.
+const DURATION_PATTERN = new RegExp(
+  `\\b(\\d+(?:[.,]\\d+)?)(?:\\s*-?\\s*(${UNIT_PATTERN})|([ydhs]))\\b`
+);
+
+const normalize = (text: string): string => {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\s+/g, ' ').trim();
+};
+
+/**
+ * Reads a duration such as "2 years", "13 mois" or "Session" in seconds: 0 for session cookies,
+ * null when no duration can be read
+ */
+export const parseCookieDuration = (text: string): number | null => {
+  const normalized = normalize(text);
+  const match = normalized.match(DURATION_PATTERN);
+  if (match) {
+    const amount = Number(match[1].replace(',', '.'));
+    const unit = match[3] ? SHORT_UNITS[match[3]] : DURATION_UNITS.find(([, units]) => units.includes(match[2]))?.[0];
+    if (unit) return Math.round(amount * unit);
+  }
+  return SESSION_PATTERN.test(normalized) ? 0 : null;
+};
+
+const splitTableRow = (line: string): string[] => {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.replace(/\\\|/g, '|').trim());
+};
+
+/**
+ * Reads the cookie names of a table cell: "_ga, _gid", "_ga_*" or "Google Analytics (_ga)"
+ */
+const splitCookieNames = (cell: string): string[] => {
+  const tokens = cell
+    .split(/[,;/\s]+/)
+    .map(token => token.replace(/^[("'`*]+|[)"'`*:.]+$/g, ''))
+    .filter(token => token.length > 0 && token.length <= 100);
+  if (tokens.length <= 1) return tokens;
+
+  // In prose such as "Google Analytics (_ga)", identifiers stand out by their punctuation, digits or camel case
+  const identifiers = tokens.filter(token => /[_\-.\d*<>[\]{}]|[a-z][A-Z]/.test(token));
+  return identifiers.length ? identifiers : [cell.trim()];
+};
+
+/**
+ * Reads the cookies of the Markdown tables whose header has a name column and a duration or purpose column
+ */
+const parseCookieTables = (markdown: string): DeclaredCookie[] => {
+  const cookies: DeclaredCookie[] = [];
+  const lines = markdown.split('\n');
+
+  for (let index = 0; index < lines.length; index++) {
+    if (!lines[index].trim().startsWith('|') || !/^\s*\|[\s|:-]+\|\s*$/.test(lines[index + 1] || '')) continue;
+
+    const columns: Partial<Record<CookieColumn, number>> = {};
+    splitTableRow(lines[index]).forEach((header, column) => {
+      const text = normalize(header);
+      const match = COLUMN_PATTERNS.find(([key, pattern]) => columns[key] === undefined && pattern.test(text));
+      if (match) columns[match[0]] = column;
+    });
+
+    let row = index + 2;
+    if (columns.name !== undefined && (columns.duration !== undefined || columns.purpose !== undefined)) {
+      for (; row < lines.length && lines[row].trim().startsWith('|'); row++) {
+        const cells = splitTableRow(lines[row]);
+        const cell = (column?: CookieColumn) => (column && columns[column] !== undefined ? cells[columns[column] as number] : '') || undefined;
+        const duration = cell('duration');
+        splitCookieNames(cells[columns.name] || '').forEach(name => {
+          cookies.push({
+            name,
+            provider: cell('provider'),
+            purpose: cell('purpose'),
+            duration,
+            durationSeconds: duration ? parseCookieDuration(duration) : null
+          });
+        });
+      }
+    }
+    index = row - 1;
+  }
+
+  return cookies;
+};
+
+/**
+ * Reads cookies declared as list items, such as "- _ga: Distinguishes users. Expires after 2 years".
+ * Only items stating a duration are taken, other lists are rarely about individual cookies.
+ */
+const parseCookieLists = (markdown: string): DeclaredCookie[] => {
+  const cookies: DeclaredCookie[] = [];
+  markdown.split('\n').forEach(line => {
+    const match = line.match(/^\s*(?:[-*]|\d+\.)\s+`?([^\s:`–—]+?)`?\s*(?::|\s[–—-])\s*(.+)$/);
+    // Capitalised words such as "Analytics: ..." introduce categories rather than cookies
+    if (!match || /^[A-Z][a-z]+$/.test(match[1])) return;
+    const durationSeconds = parseCookieDuration(match[2]);
+    if (durationSeconds === null) return;
+    cookies.push({ name: match[1], purpose: match[2], duration: match[2], durationSeconds });
+  });
+  return cookies;
+};
+
+/**
+ * Parses the cookies declared in a cookie policy, from its tables or, without tables, from its lists
+ */
+export const parseDeclaredCookies = (markdown: string): DeclaredCookie[] => {
+  const cookies = parseCookieTables(markdown);
+  return cookies.length ? cookies : parseCookieLists(markdown);
+};
+
+/**
+ * Turns a declared name into a pattern: "*", "<id>", "[id]", "{id}", "XXXX" and "#" stand for any characters,
+ * and a trailing underscore or dash declares a prefix
+ */
+const toNamePattern = (name: string): RegExp => {
+  const wildcard = /\*|<[^>]*>|\[[^\]]*\]|\{[^}]*\}|X{3,}|#+/g;
+  const parts = name.split(wildcard).map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const prefix = /[_-]$/.test(name) ? '.*' : '';
+  return new RegExp(`^${parts.join('.*')}${prefix}$`, 'i');
+};
+
+const formatLifetime = (seconds: number): string => {
+  if (seconds === 0) return 'session';
+  if (seconds < DAY) return `${Math.max(Math.round(seconds / 3600), 1)} hours`;
+  return `${Math.round(seconds / DAY)} days`;
+};
+
+const evaluateCookieDeclaration = (
+  declared: DeclaredCookie[],
+  undeclared: ObservedCookie[],
+  absent: string[],
+  lifetimes: CookieLifetimeFinding[],
+  oversizedDeclarations: DeclaredCookie[]
+): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+
+  if (!declared.length) {
+    issues.push({
+      ruleId: 'eprivacy-4-no-declaration',
+      ruleName: 'No cookie list in the cookie policy',
+      severity: 'low',
+      description: 'No table or list of cookies with their names and durations was found in the cookie policy, so the cookies observed on the site could not be checked against it',
+      recommendation: 'List each cookie with its name, provider, purpose and duration, in the policy itself rather than only in the consent banner'
+    });
+    return issues;
+  }
+
+  if (undeclared.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-1-undeclared',
+      ruleName: 'Cookies missing from the cookie policy',
+      severity: 'medium',
+      description: `${undeclared.length} cookie(s) set on the site are not listed in the cookie policy: ${undeclared.slice(0, 10).map(cookie => `${cookie.name} (${cookie.domain})`).join(', ')}`,
+      recommendation: 'Add every cookie the site sets, including those of third parties, to the cookie policy with its purpose and duration'
+    });
+  }
+
+  if (absent.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-1-absent',
+      ruleName: 'Declared cookies not observed',
+      severity: 'low',
+      description: `${absent.length} cookie(s) listed in the cookie policy were not set during the scan: ${absent.slice(0, 10).join(', ')}. They may only be set on other pages or after logging in, or the list may be out of date`,
+      recommendation: 'Review the cookie list regularly and remove the cookies the site no longer uses'
+    });
+  }
+
+  const outlivingDeclared = lifetimes.filter(finding => finding.exceedsDeclared);
+  if (outlivingDeclared.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-4-duration',
+      ruleName: 'Cookies outlive their declared duration',
+      severity: 'medium',
+      description: `${outlivingDeclared.length} cookie(s) last longer than the cookie policy says: ${outlivingDeclared.slice(0, 10).map(finding => `${finding.name} (${formatLifetime(finding.lifetimeSeconds)}, declared ${finding.declaredDuration})`).join(', ')}`,
+      recommendation: 'Align the cookies\' expiry with the durations stated in the cookie policy, or correct the policy'
+    });
+  }
+
+  const overCap = lifetimes.filter(finding => finding.exceedsCap);
+  // Declared durations only add the cookies that weren't seen outliving the cap
+  const declaredOverCap = oversizedDeclarations.filter(cookie => !overCap.some(finding => toNamePattern(cookie.name).test(finding.name)));
+  if (overCap.length > 0 || declaredOverCap.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-4-cnil',
+      ruleName: 'Cookie lifetimes over 13 months',
+      severity: 'medium',
+      description: `Cookies are kept longer than the 13 months recommended by the CNIL: ${[
+        ...overCap.map(finding => `${finding.name} (${formatLifetime(finding.lifetimeSeconds)})`),
+        ...declaredOverCap.map(cookie => `${cookie.name} (declared ${cookie.duration})`)
+      ].slice(0, 10).join(', ')}`,
+      recommendation: 'Limit consent-based cookies to 13 months, after which consent has to be asked again'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Reconciles the cookies declared in the cookie policy with the cookies observed in every consent state:
+ * undeclared cookies, declared cookies never set, and lifetimes beyond the declared duration or 13 months (eprivacy-4)
+ */
+export const analyzeCookieDeclaration = (
+  cookiePolicy: string,
+  observedCookies: ObservedCookie[],
+  observedAt = Date.now() / 1000
+): CookieDeclarationAnalysis => {
+  const declared = parseDeclaredCookies(cookiePolicy);
+  const matchers = declared.map(cookie => ({ cookie, pattern: toNamePattern(cookie.name) }));
+
+  // The same cookie is seen in several consent states
+  const cookies = new Map<string, ObservedCookie>();
+  observedCookies.forEach(cookie => cookies.set(`${cookie.name}@${cookie.domain}`, cookie));
+
+  const matched = new Set<DeclaredCookie>();
+  const undeclared: ObservedCookie[] = [];
+  const lifetimes: CookieLifetimeFinding[] = [];
+
+  cookies.forEach(cookie => {
+    const match = matchers.find(({ pattern }) => pattern.test(cookie.name));
+    if (!match) {
+      undeclared.push(cookie);
+    } else {
+      matched.add(match.cookie);
+    }
+
+    const lifetimeSeconds = cookie.expires === -1 ? 0 : Math.max(Math.round(cookie.expires - observedAt), 0);
+    const declaredSeconds = match ? match.cookie.durationSeconds : null;
+    const exceedsDeclared = declaredSeconds !== null && lifetimeSeconds > declaredSeconds + LIFETIME_TOLERANCE;
+    const exceedsCap = lifetimeSeconds > MAX_COOKIE_LIFETIME;
+    if (exceedsDeclared || exceedsCap) {
+      lifetimes.push({
+        name: cookie.name,
+        domain: cookie.domain,
+        lifetimeSeconds,
+        declaredDuration: match?.cookie.duration,
+        exceedsDeclared,
+        exceedsCap
+      });
+    }
+  });
+
+  const absent = Array.from(new Set(declared.filter(cookie => !matched.has(cookie)).map(cookie => cookie.name)));
+  const oversizedDeclarations = declared.filter(cookie => (cookie.durationSeconds || 0) > MAX_COOKIE_LIFETIME);
+
+  const issues = evaluateCookieDeclaration(declared, undeclared, absent, lifetimes, oversizedDeclarations);
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'Cookie Declaration',
+    sectionText: declared.map(cookie => `${cookie.name}${cookie.duration ? ` (${cookie.duration})` : ''}`).join('\n'),
+    compliant,
+    score,
+    issues,
+    details: { declared, undeclared, absent, lifetimes }
+  };
+};
@@ -0,0 +1,337 @@
+import { ComplianceIssue, CrawlCookie, CrawledPage, CrawlHost, CrawlReport, CrawlSettings } from '@/types';
+import { CrawlPage, PageFetcher, PageLinks } from './fetcherService';
+import type { PageForms } from './formService';
+import { getDistinctHosts, isThirdPartyHost } from './trackingService';
+import { isAllowedByRobots } from './politenessService';
+import { containsSecret, LoginSession } from './loginService';
+
+// Upper bounds on what a single scan may ask for, whatever the request or environment says
+const MAX_DEPTH_LIMIT = 5;
+const MAX_PAGES_LIMIT = 100;
+const CONCURRENCY_LIMIT = 4;
+
+const readLimit = (value: string | undefined, fallback: number, min: number, max: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isInteger(parsed) ? Math.min(Math.max(parsed, min), max) : fallback;
+};
+
+// Patterns a request may send, each matched against every link found
+const MAX_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+
+const DEFAULT_SETTINGS: CrawlSettings = {
+  maxDepth: readLimit(process.env.CRAWL_MAX_DEPTH, 2, 0, MAX_DEPTH_LIMIT),
+  maxPages: readLimit(process.env.CRAWL_MAX_PAGES, 10, 0, MAX_PAGES_LIMIT),
+  include: [],
+  exclude: [],
+  concurrency: readLimit(process.env.CRAWL_CONCURRENCY, 2, 1, CONCURRENCY_LIMIT)
+};
+
+/**
+ * Compiles the whitespace-separated regular expressions of an environment variable, skipping invalid ones
+ */
+const readPatterns = (name: string): RegExp[] => {
+  return (process.env[name] || '').split(/\s+/).filter(Boolean).flatMap(pattern => {
+    try {
+      return [new RegExp(pattern, 'i')];
+    } catch (error) {
+      console.error(`Ignoring the invalid pattern ${pattern} of ${name}:`, error);
+      return [];
+    }
+  });
+};
+
+// Links that would end the session or change the account, never followed once a login script ran
+const AUTHENTICATED_EXCLUDE_PATTERN = /(log-?out|log_out|log-?off|sign-?out|sign_out|delete|remove|unsubscribe|cancel)/i;
+
+// Regular expressions are only read from the environment and apply to every scan, requests narrow the crawl with globs
+const INCLUDE_PATTERNS = readPatterns('CRAWL_INCLUDE');
+const EXCLUDE_PATTERNS = readPatterns('CRAWL_EXCLUDE');
+
+// Links to files rather than pages are not crawled
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|rar|7z|docx?|xlsx?|pptx?|odt|csv|jpe?g|png|gif|webp|avif|svg|ico|mp[34]|webm|mov|avi|wav|ogg|xml|json|rss|atom|txt|ics|apk|dmg|exe)$/i;
+
+// Pages listed per host, the report only needs a few examples
+const MAX_PAGES_PER_HOST = 10;
+
+/**
+ * Checks crawl settings sent with a request, returning why they can't be used
+ */
+export const checkCrawlSettings = (input: unknown): string | null => {
+  if (input === undefined) return null;
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return 'crawl must be an object';
+
+  const settings = input as Record<string, unknown>;
+  const limits: [keyof CrawlSettings, number, number][] = [
+    ['maxDepth', 0, MAX_DEPTH_LIMIT],
+    ['maxPages', 0, MAX_PAGES_LIMIT],
+    ['concurrency', 1, CONCURRENCY_LIMIT]
+  ];
+  for (const [key, min, max] of limits) {
+    const value = settings[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max)) {
+      return `crawl.${key} must be an integer between ${min} and ${max}`;
+    }
+  }
+
+  for (const key of ['include', 'exclude'] as const) {
+    const patterns = settings[key];
+    if (patterns === undefined) continue;
+    if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || pattern.length === 0)) {
+      return `crawl.${key} must be a list of glob patterns`;
+    }
+    if (patterns.length > MAX_PATTERNS) return `crawl.${key} has at most ${MAX_PATTERNS} patterns`;
+    if (patterns.some(pattern => pattern.length > MAX_PATTERN_LENGTH)) {
+      return `crawl.${key} patterns are at most ${MAX_PATTERN_LENGTH} characters long`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a URL contains a glob pattern, where "*" matches any characters, ignoring case.
+ * Parts are looked up one after the other rather than compiled to a regular expression, which a request could
+ * otherwise make backtrack for ever.
+ */
+const matchesGlob = (url: string, pattern: string): boolean => {
+  const text = url.toLowerCase();
+  let position = 0;
+  for (const part of pattern.toLowerCase().split('*')) {
+    const index = text.indexOf(part, position);
+    if (index === -1) return false;
+    position = index + part.length;
+  }
+  return true;
+};
+
+/**
+ * Whether a URL passes the environment's patterns and the request's globs
+ */
+const isIncluded = (url: string, settings: CrawlSettings): boolean => {
+  if (INCLUDE_PATTERNS.length > 0 && !INCLUDE_PATTERNS.some(pattern => pattern.test(url))) return false;
+  if (EXCLUDE_PATTERNS.some(pattern => pattern.test(url))) return false;
+  if (settings.include.length > 0 && !settings.include.some(pattern => matchesGlob(url, pattern))) return false;
+  return !settings.exclude.some(pattern => matchesGlob(url, pattern));
+};
+
+/**
+ * The settings of a crawl: the environment's defaults, overridden by those of the request
+ */
+export const getCrawlSettings = (overrides: Partial<CrawlSettings> = {}): CrawlSettings => ({
+  maxDepth: overrides.maxDepth ?? DEFAULT_SETTINGS.maxDepth,
+  maxPages: overrides.maxPages ?? DEFAULT_SETTINGS.maxPages,
+  include: overrides.include ?? DEFAULT_SETTINGS.include,
+  exclude: overrides.exclude ?? DEFAULT_SETTINGS.exclude,
+  concurrency: overrides.concurrency ?? DEFAULT_SETTINGS.concurrency
+});
+
+export interface VisitedPage {
+  url: string;
+  depth: number;
+  page: CrawlPage | null;
+  error?: string;
+}
+
+/**
+ * Normalizes a link to a crawlable page of the site, or null when it leads elsewhere or isn't to be followed
+ */
+const toCrawlUrl = (href: string, siteUrl: string, isFollowed: ((url: string) => boolean) | null): string | null => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch (e) {
+    return null;
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) return null;
+  if (isThirdPartyHost(url.hostname, siteUrl)) return null;
+  if (NON_PAGE_EXTENSIONS.test(url.pathname)) return null;
+
+  url.hash = '';
+  return !isFollowed || isFollowed(url.href) ? url.href : null;
+};
+
+/**
+ * Runs a task for each item, with at most `concurrency` of them at a time
+ */
+const forEachConcurrently = async <T>(items: T[], concurrency: number, task: (item: T) => Promise<void>): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+};
+
+/**
+ * Loads a page of the crawl with the first fetcher that can
+ */
+const visitPage = async (url: string, depth: number, fetchers: PageFetcher[]): Promise<VisitedPage> => {
+  let lastError: unknown = null;
+  for (const fetcher of fetchers) {
+    try {
+      return { url, depth, page: await fetcher.crawlPage(url) };
+    } catch (error) {
+      console.error(`The ${fetcher.name} fetcher could not crawl ${url}:`, error);
+      lastError = error;
+    }
+  }
+  return { url, depth, page: null, error: lastError instanceof Error ? lastError.message : String(lastError) };
+};
+
+/**
+ * Visits the site's pages breadth first from the homepage, level by level, until the depth or page budget is reached.
+ * Only same-site links matching the include patterns and none of the exclude patterns, and allowed by robots.txt,
+ * are followed. After a login, the page it ended on is visited alongside the homepage, links that would log out or
+ * change the account are skipped, and pages whose URL carries a secret typed into the site are left out.
+ */
+export const crawlSite = async (
+  homepage: PageLinks,
+  fetchers: PageFetcher[],
+  settings: CrawlSettings,
+  login: LoginSession | null = null
+): Promise<VisitedPage[]> => {
+  if (settings.maxPages === 0) return [];
+
+  const secrets = login?.secrets || [];
+  const isFollowed = (url: string): boolean => {
+    if (login && (AUTHENTICATED_EXCLUDE_PATTERN.test(url) || containsSecret(url, secrets))) return false;
+    return isIncluded(url, settings);
+  };
+  const seen = new Set<string>([homepage.url.split('#')[0]]);
+  const visited: VisitedPage[] = [];
+
+  // The login's landing page is always visited, whatever the patterns, as long as it belongs to the site
+  let level = [homepage.url.split('#')[0]];
+  const landingUrl = login?.report.landingUrl && toCrawlUrl(login.report.landingUrl, homepage.url, null);
+  if (landingUrl && !seen.has(landingUrl)) {
+    seen.add(landingUrl);
+    level.push(landingUrl);
+  }
+  for (let depth = 0; depth <= settings.maxDepth && level.length > 0; depth++) {
+    const batch = level.slice(0, settings.maxPages - visited.length);
+    const results: VisitedPage[] = [];
+    await forEachConcurrently(batch, settings.concurrency, async url => {
+      results.push(await visitPage(url, depth, fetchers));
+    });
+    // Pages are reported in the order they were queued, not the order they loaded in
+    results.sort((a, b) => batch.indexOf(a.url) - batch.indexOf(b.url));
+    // Redirects can still lead to a URL carrying a secret, such pages are neither reported nor followed
+    const reported = results.filter(result => !containsSecret(`${result.page?.url || ''} ${result.error || ''}`, secrets));
+    visited.push(...reported);
+    if (visited.length >= settings.maxPages) break;
+
+    level = [];
+    results.forEach(result => {
+      if (result.page) seen.add(result.page.url.split('#')[0]);
+    });
+    for (const result of reported) {
+      for (const link of result.page?.links || []) {
+        const url = toCrawlUrl(link.href, homepage.url, isFollowed);
+        if (!url || seen.has(url)) continue;
+        seen.add(url);
+        level.push(url);
+      }
+    }
+    // Disallowed pages are left out before they take a place in the budget
+    const allowed = await Promise.all(level.map(url => isAllowedByRobots(url)));
+    level = level.filter((url, index) => allowed[index]);
+  }
+
+  return visited;
+};
+
+/**
+ * The forms found on the crawled pages, for the form audit
+ */
+export const getCrawledForms = (pages: VisitedPage[]): PageForms[] => {
+  return pages
+    .filter(visited => visited.page && visited.page.forms.length > 0)
+    .map(visited => ({ url: visited.page!.url, forms: visited.page!.forms }));
+};
+
+/**
+ * Aggregates the cookies and third-party hosts seen across the crawled pages.
+ * Nothing is clicked during the crawl, so trackers on any page ran before consent (ePrivacy Directive Art. 5(3)).
+ * Those already on the homepage are reported by the pre-consent check, only the others are flagged here.
+ */
+export const buildCrawlReport = (pages: VisitedPage[], settings: CrawlSettings): CrawlReport => {
+  const cookies = new Map<string, CrawlCookie>();
+  const hosts = new Map<string, CrawlHost>();
+
+  const crawledPages: CrawledPage[] = pages.map(visited => {
+    const tracking = visited.page?.tracking;
+    const pageUrl = visited.page?.url || visited.url;
+    const newCookies: string[] = [];
+    tracking?.cookies.forEach(cookie => {
+      const key = `${cookie.name}|${cookie.domain}`;
+      if (cookies.has(key)) return;
+      cookies.set(key, { ...cookie, firstSeenOn: pageUrl });
+      newCookies.push(cookie.name);
+    });
+    getDistinctHosts(tracking?.thirdPartyRequests || []).forEach(host => {
+      const entry = hosts.get(host) || {
+        host,
+        tracking: tracking!.thirdPartyRequests.some(request => request.host === host && request.tracking),
+        pages: []
+      };
+      if (entry.pages.length < MAX_PAGES_PER_HOST) entry.pages.push(pageUrl);
+      hosts.set(host, entry);
+    });
+
+    return {
+      url: pageUrl,
+      depth: visited.depth,
+      error: visited.error,
+      formCount: visited.page?.forms.length || 0,
+      cookies: newCookies,
+      trackingHosts: getDistinctHosts(tracking?.thirdPartyRequests || [], true)
+    };
+  });
+
+  const startUrl = crawledPages[0]?.url;
+  const innerTrackingCookies = Array.from(cookies.values()).filter(cookie => cookie.tracking && cookie.firstSeenOn !== startUrl);
+  const innerTrackingHosts = Array.from(hosts.values()).filter(host => host.tracking && !host.pages.includes(startUrl));
+  const issues: ComplianceIssue[] = [];
+
+  if (innerTrackingCookies.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-crawl-cookies',
+      ruleName: 'Tracking cookies set before consent on inner pages',
+      severity: 'high',
+      description: `Pages beyond the homepage set tracking cookies before any consent: ${innerTrackingCookies.slice(0, 10).map(cookie => `${cookie.name} (${cookie.firstSeenOn})`).join(', ')}`,
+      recommendation: 'Apply the consent banner\'s blocking to every template of the site, including checkout, account and blog pages'
+    });
+  }
+
+  if (innerTrackingHosts.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-crawl-requests',
+      ruleName: 'Trackers loaded before consent on inner pages',
+      severity: 'high',
+      description: `Pages beyond the homepage contact tracking services before any consent: ${innerTrackingHosts.slice(0, 10).map(host => `${host.host} (${host.pages[0]})`).join(', ')}`,
+      recommendation: 'Check the tags added by page-specific templates and plugins, and load them only after consent'
+    });
+  }
+
+  const failed = crawledPages.filter(page => page.error);
+  if (failed.length > 0 && failed.length === crawledPages.length) {
+    issues.push({
+      ruleId: 'crawl-failed',
+      ruleName: 'Site could not be crawled',
+      severity: 'low',
+      description: `None of the ${failed.length} page(s) of the crawl could be loaded: ${failed[0].error}`,
+      recommendation: 'Check that the site answers automated visits, or narrow the crawl with include and exclude patterns'
+    });
+  }
+
+  return {
+    settings,
+    networkObserved: pages.some(visited => !!visited.page?.tracking),
+    pages: crawledPages,
+    cookies: Array.from(cookies.values()),
+    thirdPartyHosts: Array.from(hosts.values()).sort((a, b) => b.pages.length - a.pages.length),
+    compliant: !issues.some(issue => issue.severity === 'high'),
+    issues
+  };
+};
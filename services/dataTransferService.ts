@@ -0,0 +1,181 @@
+import {
+  ComplianceIssue,
+  DataTransferAnalysis,
+  TransferRecipient,
+  TransferSafeguard,
+  TransferSafeguardMention,
+  TransferStatus,
+  VendorInventory
+} from '@/types';
+import { scoreIssues } from './scoringService';
+
+// EU member states, Iceland, Liechtenstein and Norway
+const EEA_COUNTRIES = [
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE', 'IT', 'LV', 'LT', 'LU',
+  'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE', 'IS', 'LI', 'NO'
+];
+
+// Countries covered by a Commission adequacy decision under GDPR Article 45
+const ADEQUATE_COUNTRIES = ['AD', 'AR', 'CA', 'CH', 'FO', 'GB', 'GG', 'IL', 'IM', 'JE', 'JP', 'KR', 'NZ', 'UY'];
+
+// Countries whose adequacy decision only covers recipients certified under a framework
+const FRAMEWORK_COUNTRIES = ['US'];
+
+// How privacy policies name each safeguard, in the EU's main languages
+const SAFEGUARD_PATTERNS: Record<TransferSafeguard, RegExp[]> = {
+  scc: [
+    /standard (data protection )?contractual clauses/i, /\bSCCs?\b/, /standardvertragsklauseln/i,
+    /clauses contractuelles types/i, /cl[aá]usulas contractuales tipo/i, /clausole contrattuali (standard|tipo)/i,
+    /(standaard|model)contract(bepalingen|clausules)/i, /cl[aá]usulas contratuais[- ]tipo/i, /standardowe klauzule umowne/i
+  ],
+  adequacy: [
+    /adequacy decision/i, /decision on adequacy/i, /angemessenheitsbeschlu(ss|ß)/i, /d[ée]cision d'ad[ée]quation/i,
+    /decisi[oó]n de adecuaci[oó]n/i, /decisione di adeguatezza/i, /adequaatheidsbesluit/i, /decis[aã]o de adequa[cç][aã]o/i,
+    /decyzj[aię] stwierdzając[aą] odpowiedni/i
+  ],
+  dpf: [/data privacy framework/i, /\bDPF\b/, /datenschutzrahmen/i, /cadre de protection des donn[ée]es/i, /marco de privacidad de datos/i],
+  bcr: [
+    /binding corporate rules/i, /\bBCRs?\b/, /verbindliche(n)? interne(n)? datenschutzvorschriften/i,
+    /r[eè]gles d'entreprise contraignantes/i, /normas corporativas vinculantes/i, /norme vincolanti d'impresa/i
+  ]
+};
+
+// Any statement that personal data leaves the EEA
+const TRANSFER_MENTION_PATTERN = new RegExp([
+  'third countr', 'outside (of )?the (EEA|EU\\b|European)', 'international (data )?transfer', 'transfer.{0,60}(United States|USA|U\\.S\\.)',
+  'drittl[aä]nd', 'pays tiers', "hors de l'(UE|EEE|Union)", 'terceros pa[ií]ses', 'paesi terzi', 'derde landen',
+  'pa[ií]ses terceiros', 'pa[nń]stw(a|ach) trzecich', 'tredjeland'
+].join('|'), 'i');
+
+const STATUS_ORDER: TransferStatus[] = ['none', 'unknown', 'framework', 'adequate', 'eea'];
+
+const getTransferStatus = (country: string | null): TransferStatus => {
+  if (!country) return 'unknown';
+  if (EEA_COUNTRIES.includes(country)) return 'eea';
+  if (ADEQUATE_COUNTRIES.includes(country)) return 'adequate';
+  if (FRAMEWORK_COUNTRIES.includes(country)) return 'framework';
+  return 'none';
+};
+
+/**
+ * Finds the first sentence of the policy mentioning each transfer safeguard.
+ * Sentences only end after a lowercase word, so that abbreviations such as "U.S." don't split them.
+ */
+const findSafeguardMentions = (policyText: string): TransferSafeguardMention[] => {
+  const sentences = policyText
+    .split(/\n+|(?<=[a-zß-ÿ\d)]{2}[.!?])\s+/)
+    .map(sentence => sentence.replace(/[#*_>|]+/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const mentions: TransferSafeguardMention[] = [];
+  (Object.keys(SAFEGUARD_PATTERNS) as TransferSafeguard[]).forEach(safeguard => {
+    const sentence = sentences.find(text => SAFEGUARD_PATTERNS[safeguard].some(pattern => pattern.test(text)));
+    if (sentence) {
+      mentions.push({ safeguard, excerpt: sentence.length > 300 ? `${sentence.slice(0, 300)}…` : sentence });
+    }
+  });
+  return mentions;
+};
+
+const describeRecipients = (recipients: TransferRecipient[]): string => {
+  return recipients.slice(0, 10).map(recipient => `${recipient.vendor} (${recipient.country || 'unknown country'})`).join(', ');
+};
+
+const evaluateDataTransfers = (
+  recipients: TransferRecipient[],
+  safeguards: TransferSafeguard[],
+  policyAvailable: boolean,
+  policyMentionsTransfers: boolean
+): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+  const inPolicy = policyAvailable ? 'the privacy policy' : 'any privacy policy, as none was found';
+  const hasContractualSafeguard = safeguards.includes('scc') || safeguards.includes('bcr');
+
+  const unprotected = recipients.filter(recipient => recipient.status === 'none');
+  if (unprotected.length > 0 && !hasContractualSafeguard) {
+    issues.push({
+      ruleId: 'gdpr-46',
+      ruleName: 'Transfers to countries without an adequacy decision',
+      severity: 'high',
+      description: `Visitors' data is sent to recipients in countries without an adequacy decision: ${describeRecipients(unprotected)}. Neither standard contractual clauses nor binding corporate rules are mentioned in ${inPolicy}`,
+      recommendation: 'Put standard contractual clauses or binding corporate rules in place with these recipients, assess the laws of their countries, and state the safeguard in the privacy policy (GDPR Articles 44 and 46)'
+    });
+  }
+
+  const framework = recipients.filter(recipient => recipient.status === 'framework');
+  if (framework.length > 0 && !hasContractualSafeguard && !safeguards.includes('dpf')) {
+    issues.push({
+      ruleId: 'gdpr-45-dpf',
+      ruleName: 'US transfers without a stated safeguard',
+      severity: 'medium',
+      description: `Visitors' data is sent to US recipients: ${describeRecipients(framework)}. The adequacy decision for the US only covers companies certified under the EU-US Data Privacy Framework, and neither the framework nor standard contractual clauses are mentioned in ${inPolicy}`,
+      recommendation: 'Check that each US recipient is certified under the Data Privacy Framework, or sign standard contractual clauses with it, and say which applies in the privacy policy'
+    });
+  }
+
+  const outsideEea = recipients.filter(recipient => ['none', 'framework', 'adequate'].includes(recipient.status));
+  if (outsideEea.length > 0 && !policyMentionsTransfers && safeguards.length === 0) {
+    issues.push({
+      ruleId: 'gdpr-13-1-f',
+      ruleName: 'Transfers not disclosed',
+      severity: 'medium',
+      description: `Data is transferred outside the EEA to ${describeRecipients(outsideEea)}, but ${policyAvailable ? 'the privacy policy does not mention' : 'no privacy policy was found to disclose'} transfers to third countries`,
+      recommendation: 'Tell data subjects which countries their data is transferred to and on which basis: adequacy decision, Data Privacy Framework or standard contractual clauses (GDPR Article 13(1)(f))'
+    });
+  }
+
+  const unknown = recipients.filter(recipient => recipient.status === 'unknown');
+  if (unknown.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-44-unknown',
+      ruleName: 'Recipients of unknown jurisdiction',
+      severity: 'low',
+      description: `The country of ${unknown.length} third-party host(s) could not be determined: ${unknown.slice(0, 10).map(recipient => recipient.vendor).join(', ')}`,
+      recommendation: 'Identify the company behind each of these hosts and where it processes data, and cover it in your record of transfers'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Maps the vendors contacted by the site to their jurisdictions and checks the privacy policy for the
+ * matching transfer safeguards (GDPR Chapter V). Every request sends at least the visitor's IP address.
+ * `privacyPolicy` is null when no privacy policy could be extracted.
+ */
+export const analyzeDataTransfers = (inventory: VendorInventory, privacyPolicy: string | null): DataTransferAnalysis => {
+  const recipients: TransferRecipient[] = inventory.vendors
+    .map(entry => ({
+      vendor: entry.vendor || entry.hosts[0],
+      hosts: entry.hosts,
+      country: entry.country,
+      status: getTransferStatus(entry.country)
+    }))
+    .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status));
+
+  const policyText = privacyPolicy ?? '';
+  const mentions = findSafeguardMentions(policyText);
+  const policyMentionsTransfers = TRANSFER_MENTION_PATTERN.test(policyText);
+
+  const issues = evaluateDataTransfers(
+    recipients,
+    mentions.map(mention => mention.safeguard),
+    privacyPolicy !== null,
+    policyMentionsTransfers
+  );
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'International Data Transfers',
+    sectionText: mentions.map(mention => mention.excerpt).join('\n\n'),
+    compliant,
+    score,
+    issues,
+    details: {
+      recipients,
+      safeguards: mentions,
+      policyAvailable: privacyPolicy !== null,
+      policyMentionsTransfers
+    }
+  };
+};
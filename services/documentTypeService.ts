@@ -0,0 +1,10 @@
+import documentTypes from '@/lib/document-types.json';
+import { DocumentType, DocumentTypeDefinition } from '@/types';
+
+export const DOCUMENT_TYPE_KEYS = Object.keys(documentTypes) as DocumentType[];
+
+/**
+ * The compliance documents looked for on every site, in display order.
+ * Each type brings its discovery keywords (lib/policy-keywords.json), analysis focus and description.
+ */
+export const DOCUMENT_TYPES: DocumentTypeDefinition[] = DOCUMENT_TYPE_KEYS.map(key => ({ key, ...documentTypes[key] }));
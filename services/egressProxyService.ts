@@ -0,0 +1,107 @@
+import http from 'http';
+import net from 'net';
+import type { Duplex } from 'stream';
+import { isAllowedPort, isBlockedAddress, safeLookup } from './urlSafetyService';
+
+// Connections are only opened to public addresses, resolved here rather than by the browser
+const upstreamAgent = new http.Agent({ lookup: safeLookup, keepAlive: true });
+
+// Headers meant for the proxy itself, not forwarded to the site
+const HOP_BY_HOP_HEADERS = ['proxy-connection', 'proxy-authorization', 'connection', 'keep-alive'];
+
+let proxyServer: Promise<string> | null = null;
+
+/**
+ * Whether a host may be connected to on a port. Names are checked when they are resolved,
+ * but literal addresses skip the lookup and are checked here.
+ */
+const isAllowedTarget = (hostname: string, port: number): boolean => {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  return isAllowedPort(port) && !(net.isIP(host) && isBlockedAddress(host));
+};
+
+const refuse = (socket: Duplex, status: string): void => {
+  socket.end(`HTTP/1.1 ${status}\r\n\r\n`);
+};
+
+/**
+ * Tunnels HTTPS and WebSocket connections, once their host resolved to a public address on an allowed port
+ */
+const handleConnect = (request: http.IncomingMessage, client: Duplex, head: Buffer): void => {
+  let target: URL;
+  try {
+    target = new URL(`http://${request.url}`);
+  } catch (e) {
+    return refuse(client, '400 Bad Request');
+  }
+  const port = Number(target.port) || 443;
+  if (!isAllowedTarget(target.hostname, port)) return refuse(client, '403 Forbidden');
+
+  const upstream = net.connect({ host: target.hostname.replace(/^\[|\]$/g, ''), port, lookup: safeLookup });
+  upstream.once('connect', () => {
+    client.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    if (head.length) upstream.write(head);
+    upstream.pipe(client);
+    client.pipe(upstream);
+  });
+  upstream.on('error', error => {
+    console.error(`Blocked or failed connection to ${request.url}: ${error.message}`);
+    if (client.writable && !upstream.readableEnded) refuse(client, '502 Bad Gateway');
+    client.destroy();
+  });
+  client.on('error', () => upstream.destroy());
+};
+
+/**
+ * Forwards plain HTTP requests, which the browser sends to the proxy with their absolute URL
+ */
+const handleRequest = (request: http.IncomingMessage, response: http.ServerResponse): void => {
+  let target: URL;
+  try {
+    target = new URL(request.url || '');
+  } catch (e) {
+    response.writeHead(400).end();
+    return;
+  }
+  if (target.protocol !== 'http:' || !isAllowedTarget(target.hostname, Number(target.port) || 80)) {
+    response.writeHead(403).end();
+    return;
+  }
+
+  const headers = { ...request.headers };
+  HOP_BY_HOP_HEADERS.forEach(header => delete headers[header]);
+  const upstream = http.request(target, { method: request.method, headers, agent: upstreamAgent }, upstreamResponse => {
+    response.writeHead(upstreamResponse.statusCode || 502, upstreamResponse.headers);
+    upstreamResponse.pipe(response);
+  });
+  upstream.on('error', error => {
+    console.error(`Blocked or failed request to ${target.href}: ${error.message}`);
+    if (!response.headersSent) response.writeHead(502);
+    response.end();
+  });
+  request.pipe(upstream);
+};
+
+/**
+ * Starts, once, the local proxy every browser of the pool connects through, and returns its address.
+ * The browser never resolves host names itself: redirect hops, which Playwright doesn't route, and hosts
+ * whose DNS answer changes after the URL was checked can't reach private or reserved addresses.
+ */
+export const getEgressProxy = (): Promise<string> => {
+  if (!proxyServer) {
+    proxyServer = new Promise((resolve, reject) => {
+      const server = http.createServer(handleRequest);
+      server.on('connect', handleConnect);
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => {
+        // The proxy lives as long as the browsers, it doesn't keep the process alive on its own
+        server.unref();
+        resolve(`http://127.0.0.1:${(server.address() as net.AddressInfo).port}`);
+      });
+    });
+    proxyServer.catch(() => {
+      proxyServer = null;
+    });
+  }
+  return proxyServer;
+};
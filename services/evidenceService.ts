@@ -0,0 +1,256 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import type { Page } from 'playwright';
+import { DocumentType, EvidenceBundle, EvidenceFile, EvidenceKind } from '@/types';
+import type { BrowserSession } from './browserPoolService';
+import { fetchUrl } from './httpService';
+import { throttleHost } from './politenessService';
+import { isPdfContentType } from './pdfService';
+
+// Each scan's evidence is kept in its own directory, named after the bundle ID
+const EVIDENCE_DIR = process.env.EVIDENCE_DIR || path.join(process.cwd(), '.evidence');
+
+const MANIFEST_NAME = 'manifest.json';
+
+// Bundles older than this are deleted when a scan starts, 0 keeps them forever
+const RETENTION_DAYS = Math.max(Number(process.env.EVIDENCE_RETENTION_DAYS ?? 30) || 0, 0);
+
+const BUNDLE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+const CONTENT_TYPES: Record<EvidenceKind, string> = {
+  screenshot: 'image/png',
+  har: 'application/json',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf'
+};
+
+const gzipAsync = promisify(gzip);
+
+interface PendingFile {
+  name: string;
+  kind: EvidenceKind;
+  description: string;
+  url: string;
+  capturedAt: string;
+}
+
+/**
+ * Saves the evidence of one scan. Files are hashed when saved; files written by someone else,
+ * such as the HAR Playwright writes when its context closes, are hashed when the bundle is finished.
+ */
+export interface EvidenceRecorder {
+  id: string;
+  saveFile: (name: string, data: Buffer | string, kind: EvidenceKind, description: string, url: string) => Promise<void>;
+  reserveFile: (name: string, kind: EvidenceKind, description: string, url: string) => Promise<string>;
+  finish: () => Promise<EvidenceBundle>;
+  discard: () => Promise<void>;
+}
+
+const sha256 = (data: Buffer): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Deletes a bundle and its files
+ */
+export const deleteEvidenceBundle = async (id: string): Promise<void> => {
+  if (!BUNDLE_ID_PATTERN.test(id)) return;
+  await fs.rm(path.join(EVIDENCE_DIR, id), { recursive: true, force: true });
+};
+
+/**
+ * Deletes the bundles last written to more than RETENTION_DAYS ago
+ */
+const pruneEvidence = async (): Promise<void> => {
+  if (!RETENTION_DAYS) return;
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  let entries: string[];
+  try {
+    entries = await fs.readdir(EVIDENCE_DIR);
+  } catch (e) {
+    return;
+  }
+  for (const id of entries.filter(entry => BUNDLE_ID_PATTERN.test(entry))) {
+    const directory = path.join(EVIDENCE_DIR, id);
+    try {
+      if ((await fs.stat(directory)).mtimeMs < cutoff) await deleteEvidenceBundle(id);
+    } catch (error) {
+      console.error(`Error deleting the expired evidence bundle ${id}:`, error);
+    }
+  }
+};
+
+/**
+ * Starts the bundle of a scan. Its directory is only created once something is written to it,
+ * and a failed scan discards it.
+ */
+export const createEvidenceRecorder = async (): Promise<EvidenceRecorder> => {
+  const id = randomUUID();
+  const directory = path.join(EVIDENCE_DIR, id);
+  pruneEvidence().catch(error => console.error('Error deleting expired evidence bundles:', error));
+  const createDirectory = () => fs.mkdir(directory, { recursive: true });
+
+  const createdAt = new Date().toISOString();
+  const files: EvidenceFile[] = [];
+  const pending: PendingFile[] = [];
+
+  return {
+    id,
+    saveFile: async (name, data, kind, description, url) => {
+      const content = typeof data === 'string' ? Buffer.from(data) : data;
+      await createDirectory();
+      await fs.writeFile(path.join(directory, name), content);
+      files.push({ name, kind, description, url, capturedAt: new Date().toISOString(), sha256: sha256(content), size: content.length });
+    },
+    reserveFile: async (name, kind, description, url) => {
+      await createDirectory();
+      pending.push({ name, kind, description, url, capturedAt: new Date().toISOString() });
+      return path.join(directory, name);
+    },
+    finish: async () => {
+      for (const file of pending.splice(0, pending.length)) {
+        try {
+          const content = await fs.readFile(path.join(directory, file.name));
+          files.push({ ...file, sha256: sha256(content), size: content.length });
+        } catch (error) {
+          console.error(`Evidence file ${file.name} was never written:`, error);
+        }
+      }
+      const bundle: EvidenceBundle = {
+        id,
+        createdAt,
+        files: files.slice().sort((a, b) => a.capturedAt.localeCompare(b.capturedAt)),
+        downloadUrl: `/api/evidence/${id}`
+      };
+      await createDirectory();
+      await fs.writeFile(path.join(directory, MANIFEST_NAME), JSON.stringify(bundle, null, 2));
+      return bundle;
+    },
+    discard: async () => {
+      files.splice(0, files.length);
+      pending.splice(0, pending.length);
+      await deleteEvidenceBundle(id);
+    }
+  };
+};
+
+/**
+ * Saves a full-page screenshot of the page as it is
+ */
+export const captureScreenshot = async (recorder: EvidenceRecorder, page: Page, name: string, description: string): Promise<void> => {
+  try {
+    await recorder.saveFile(name, await page.screenshot({ fullPage: true }), 'screenshot', description, page.url());
+  } catch (error) {
+    console.error(`Error capturing the screenshot ${name}:`, error);
+  }
+};
+
+/**
+ * Saves each compliance document as served, with a full-page screenshot when a browser is available.
+ * PDFs, which the browser downloads instead of rendering, are saved as downloaded.
+ */
+export const captureDocumentEvidence = async (
+  recorder: EvidenceRecorder,
+  session: BrowserSession | null,
+  documents: { type: DocumentType; title: string; url: string }[]
+): Promise<void> => {
+  const context = session ? await session.newContext() : null;
+  try {
+    for (const document of documents) {
+      if (context) {
+        const page = await context.newPage();
+        try {
+          const response = await throttleHost(document.url, () => page.goto(document.url, { waitUntil: 'load', timeout: 30000 }));
+          if (response && !isPdfContentType(response.headers()['content-type'])) {
+            await recorder.saveFile(`${document.type}.html`, await response.body(), 'html', `${document.title}, HTML as served`, document.url);
+            await captureScreenshot(recorder, page, `${document.type}.png`, `${document.title}, full page`);
+            continue;
+          }
+        } catch (error) {
+          // Downloads such as PDFs abort the navigation, they are fetched below
+        } finally {
+          await page.close();
+        }
+      }
+
+      const response = await throttleHost(document.url, () => fetchUrl(document.url));
+      if (!response) {
+        console.error(`Could not download ${document.url} for the evidence bundle`);
+        continue;
+      }
+      const pdf = isPdfContentType(response.contentType);
+      await recorder.saveFile(
+        `${document.type}.${pdf ? 'pdf' : 'html'}`,
+        response.body,
+        pdf ? 'pdf' : 'html',
+        `${document.title}, ${pdf ? 'PDF' : 'HTML'} as served`,
+        document.url
+      );
+    }
+  } finally {
+    await context?.close().catch(err => console.error('Error closing evidence context:', err));
+  }
+};
+
+const readManifest = async (id: string): Promise<EvidenceBundle | null> => {
+  if (!BUNDLE_ID_PATTERN.test(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(path.join(EVIDENCE_DIR, id, MANIFEST_NAME), 'utf8')) as EvidenceBundle;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Reads a file of a bundle, only if the bundle's manifest lists it
+ */
+export const readEvidenceFile = async (id: string, name: string): Promise<{ content: Buffer; contentType: string } | null> => {
+  const manifest = await readManifest(id);
+  const file = manifest?.files.find(candidate => candidate.name === name);
+  if (!file) return null;
+  return {
+    content: await fs.readFile(path.join(EVIDENCE_DIR, id, file.name)),
+    contentType: CONTENT_TYPES[file.kind]
+  };
+};
+
+/**
+ * Builds the header of a file in a ustar archive
+ */
+const tarHeader = (name: string, size: number, modified: Date): Buffer => {
+  const header = Buffer.alloc(512);
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0';
+  header.write(name, 0, 100);
+  header.write(octal(0o644, 8), 100);
+  header.write(octal(0, 8), 108);
+  header.write(octal(0, 8), 116);
+  header.write(octal(size, 12), 124);
+  header.write(octal(Math.floor(modified.getTime() / 1000), 12), 136);
+  header.write('0', 156);
+  header.write('ustar\0', 257);
+  header.write('00', 263);
+  // The checksum is computed with its own field filled with spaces
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(octal(checksum, 7) + ' ', 148);
+  return header;
+};
+
+/**
+ * Packs a bundle and its manifest into a .tar.gz archive
+ */
+export const createEvidenceArchive = async (id: string): Promise<Buffer | null> => {
+  const manifest = await readManifest(id);
+  if (!manifest) return null;
+
+  const parts: Buffer[] = [];
+  for (const name of [MANIFEST_NAME, ...manifest.files.map(file => file.name)]) {
+    const content = await fs.readFile(path.join(EVIDENCE_DIR, id, name));
+    parts.push(tarHeader(`${id}/${name}`, content.length, new Date(manifest.createdAt)), content);
+    parts.push(Buffer.alloc((512 - (content.length % 512)) % 512));
+  }
+  // An archive ends with two empty blocks
+  parts.push(Buffer.alloc(1024));
+  return await gzipAsync(Buffer.concat(parts));
+};
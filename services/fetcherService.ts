@@ -0,0 +1,37 @@
+import { DocumentFormat, FetcherName } from '@/types';
+import type { Link } from './linkDiscoveryService';
+import type { PageForms } from './formService';
+import type { TrackingSnapshot } from './trackingService';
+
+// Structured extractions shorter than this most likely missed the policy
+export const MIN_DOCUMENT_LENGTH = 500;
+
+export interface PageLinks {
+  url: string; // Final URL, after redirects
+  links: Link[];
+}
+
+export interface LoadedDocument {
+  text: string; // Markdown for web pages, plain text for PDFs
+  format: DocumentFormat;
+  rawText?: string; // Unstructured page text, only read when the structured extraction finds too little
+}
+
+export interface CrawlPage extends PageLinks {
+  forms: PageForms['forms'];
+  tracking: TrackingSnapshot | null; // Cookies and third-party requests, only seen by a browser
+}
+
+/**
+ * Loads the pages of a site for document discovery and extraction.
+ * The Playwright fetcher renders pages in headless Chromium; the static fetcher downloads their
+ * HTML and parses it locally, which is enough for server-rendered sites.
+ */
+export interface PageFetcher {
+  name: FetcherName;
+  getPageLinks: (url: string, timeout?: number) => Promise<PageLinks>;
+  loadDocument: (url: string) => Promise<LoadedDocument>;
+  getPageForms: (url: string) => Promise<PageForms>;
+  crawlPage: (url: string) => Promise<CrawlPage>;
+}
+
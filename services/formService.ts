@@ -0,0 +1,310 @@
+import type { Page } from 'playwright';
+import { ComplianceIssue, FormAudit, FormConsentCheckbox, FormPurpose, FormsAnalysis, PersonalDataCategory } from '@/types';
+import { scoreLink } from './linkDiscoveryService';
+import { isThirdPartyHost } from './trackingService';
+import { classifyHost } from './vendorService';
+import { scoreIssues } from './scoringService';
+
+export interface ScrapedFormField {
+  type: string; // input type, or the tag name of selects and textareas
+  name: string;
+  label: string;
+  autocomplete: string;
+  required: boolean;
+  checked: boolean;
+}
+
+export interface ScrapedForm {
+  action: string;
+  method: string;
+  attributes: string; // id, class and name of the form, which often say what it is for
+  role: string;
+  text: string;
+  fields: ScrapedFormField[];
+  links: { text: string; href: string }[]; // links in and around the form
+}
+
+export interface PageForms {
+  url: string;
+  forms: ScrapedForm[];
+}
+
+// Field types that never hold personal data typed by the visitor
+const NON_DATA_FIELD_TYPES = ['hidden', 'checkbox', 'radio', 'submit', 'button', 'reset', 'image', 'search', 'range', 'color', 'file'];
+
+// Tested against the type, name, autocomplete token and label of each field, first match wins
+const PERSONAL_DATA_PATTERNS: [PersonalDataCategory, RegExp][] = [
+  ['password', /\bpassword\b|passwort|mot de passe|contraseña|wachtwoord/],
+  ['email', /\bemail\b|e-?mail|courriel|correo/],
+  ['phone', /\btel\b|phone|mobile|telefon|téléphone|telefono|portable|handy/],
+  ['birthDate', /birth|bday|\bdob\b|geburt|naissance|nacimiento|nascita/],
+  ['payment', /\bcc-|card|\biban\b|\bcvc\b|\bcvv\b|kreditkarte|carte bancaire|tarjeta/],
+  ['address', /address|street|postal|\bzip\b|postcode|\bcity\b|adresse|stra(ß|ss)e|\bplz\b|\bville\b|ciudad|indirizzo|country-name/],
+  ['name', /\bname\b|first.?name|last.?name|surname|given-name|family-name|full.?name|vorname|nachname|pr[ée]nom|\bnom\b|nombre|apellido|cognome|\bnome\b/]
+];
+
+const SEARCH_PATTERN = /\bsearch\b|\bsuche\b|recherche|buscar|cerca\b|zoeken/;
+const LOGIN_PATTERN = /log.?in|sign.?in|anmelden|connexion|iniciar sesi[oó]n|accedi|inloggen/;
+
+const PURPOSE_PATTERNS: [FormPurpose, RegExp][] = [
+  ['signup', /sign.?up|register|registr|create.{0,20}account|inscri|konto erstellen|crea(r)? (una )?cuenta|account aanmaken/],
+  ['newsletter', /newsletter|subscribe|abonn|nieuwsbrief|nyhetsbrev|nyhedsbrev|bolet[ií]n|iscriviti/],
+  ['contact', /contact|kontakt|contatt|message|nachricht/]
+];
+
+const MARKETING_PATTERN = /newsletter|marketing|promotion|special offers|offers|partners|advertis|angebot|werbung|neuigkeiten|offres|publicit|promoci|ofertas|offerte|aanbieding|nieuwsbrief|nyhetsbrev|nyhedsbrev|news and updates/;
+const TERMS_PATTERN = /terms|conditions|privacy|\bagb\b|nutzungsbedingungen|datenschutz|\bcgu\b|\bcgv\b|confidentialit|t[ée]rminos|condiciones|privacidad|termini|condizioni|voorwaarden|privacybeleid/;
+
+/**
+ * Lists the forms of a document with their fields and the links around them.
+ * Runs in the browser, so it must stay self-contained; static HTML is passed as `root`
+ * with the URL its form actions resolve against.
+ */
+const listForms = (root?: Document, baseUrl?: string): ScrapedForm[] => {
+  const doc = root || document;
+  const base = baseUrl || doc.location.href;
+
+  const resolve = (value: string | null): string => {
+    try {
+      return new URL(value || '', base).href;
+    } catch (e) {
+      return '';
+    }
+  };
+  const clean = (value: string | null | undefined): string => (value || '').replace(/\s+/g, ' ').trim();
+
+  const labelOf = (field: Element): string => {
+    const id = field.getAttribute('id');
+    const forLabel = id ? doc.querySelector(`label[for="${id.replace(/"/g, '\\"')}"]`) : null;
+    const wrapping = field.closest('label');
+    return clean(
+      (forLabel && forLabel.textContent) ||
+      (wrapping && wrapping.textContent) ||
+      field.getAttribute('aria-label') ||
+      field.getAttribute('placeholder') ||
+      field.getAttribute('title')
+    ).slice(0, 300);
+  };
+
+  return Array.from(doc.querySelectorAll('form')).map(form => {
+    const fields = Array.from(form.querySelectorAll('input, select, textarea')).map(field => {
+      const tag = field.tagName.toLowerCase();
+      const checked = (field as HTMLInputElement).checked;
+      return {
+        type: tag === 'input' ? (field.getAttribute('type') || 'text').toLowerCase() : tag,
+        name: field.getAttribute('name') || field.getAttribute('id') || '',
+        label: labelOf(field),
+        autocomplete: field.getAttribute('autocomplete') || '',
+        required: field.hasAttribute('required') || field.getAttribute('aria-required') === 'true',
+        checked: typeof checked === 'boolean' ? checked : field.hasAttribute('checked')
+      };
+    });
+
+    // The privacy notice usually sits next to the form, in its container rather than in the page footer
+    let container: Element = form;
+    for (let depth = 0; depth < 2; depth++) {
+      const parent = container.parentElement;
+      if (!parent || ['body', 'html', 'main'].indexOf(parent.tagName.toLowerCase()) !== -1) break;
+      container = parent;
+    }
+    const links = Array.from(container.querySelectorAll('a')).slice(0, 50).map(a => ({
+      text: clean(a.textContent || a.getAttribute('aria-label')).toLowerCase(),
+      href: resolve(a.getAttribute('href'))
+    }));
+
+    return {
+      action: resolve(form.getAttribute('action')),
+      method: (form.getAttribute('method') || 'get').toLowerCase(),
+      attributes: [form.getAttribute('id'), form.getAttribute('class'), form.getAttribute('name')].filter(Boolean).join(' '),
+      role: form.getAttribute('role') || '',
+      text: clean(form.textContent).slice(0, 1000),
+      fields,
+      links
+    };
+  });
+};
+
+/**
+ * Collects the forms of a rendered page
+ */
+export const collectPageForms = async (page: Page): Promise<ScrapedForm[]> => {
+  // No root: the forms are listed from the page's own document
+  return await page.evaluate(listForms, undefined);
+};
+
+/**
+ * Collects the forms of a document parsed from static HTML
+ */
+export const collectDocumentForms = (document: Document, baseUrl: string): ScrapedForm[] => {
+  return listForms(document, baseUrl);
+};
+
+const describeField = (field: ScrapedFormField): string => {
+  return `${field.type} ${field.name} ${field.autocomplete} ${field.label}`.toLowerCase();
+};
+
+const classifyField = (field: ScrapedFormField): PersonalDataCategory | null => {
+  if (NON_DATA_FIELD_TYPES.includes(field.type)) return null;
+  if (field.type === 'email') return 'email';
+  if (field.type === 'tel') return 'phone';
+  if (field.type === 'password') return 'password';
+  const description = describeField(field);
+  const match = PERSONAL_DATA_PATTERNS.find(([, pattern]) => pattern.test(description));
+  return match ? match[0] : null;
+};
+
+/**
+ * Tells data-collection forms apart from searches and logins, which collect nothing new
+ */
+const classifyForm = (form: ScrapedForm, personalData: PersonalDataCategory[]): FormPurpose | 'search' | 'login' => {
+  const description = `${form.attributes} ${form.action} ${form.text}`.toLowerCase();
+  const dataFields = form.fields.filter(field => !NON_DATA_FIELD_TYPES.includes(field.type));
+  const purpose = PURPOSE_PATTERNS.find(([, pattern]) => pattern.test(description));
+
+  if (form.role === 'search' || form.fields.some(field => field.type === 'search')) return 'search';
+  if (personalData.length === 0 && dataFields.length <= 1 && SEARCH_PATTERN.test(description)) return 'search';
+  if (personalData.includes('password') && (!purpose || purpose[0] !== 'signup') && dataFields.length <= 2 && LOGIN_PATTERN.test(description)) {
+    return 'login';
+  }
+  if (purpose) return purpose[0];
+  return form.fields.some(field => field.type === 'textarea') ? 'contact' : 'other';
+};
+
+const auditCheckboxes = (form: ScrapedForm): FormConsentCheckbox[] => {
+  return form.fields
+    .filter(field => field.type === 'checkbox' && field.label)
+    .map(field => {
+      const label = field.label.toLowerCase();
+      const marketing = MARKETING_PATTERN.test(label);
+      return {
+        label: field.label,
+        preChecked: field.checked,
+        required: field.required,
+        marketing,
+        bundled: marketing && (TERMS_PATTERN.test(label) || field.required)
+      };
+    })
+    .filter(checkbox => checkbox.marketing || TERMS_PATTERN.test(checkbox.label.toLowerCase()));
+};
+
+const auditForm = (pageUrl: string, form: ScrapedForm, siteUrl: string): FormAudit | null => {
+  const personalData = Array.from(new Set(form.fields.map(classifyField).filter((category): category is PersonalDataCategory => category !== null)));
+  const purpose = classifyForm(form, personalData);
+  if (purpose === 'search' || purpose === 'login' || personalData.length === 0) return null;
+
+  let recipient: string | null = null;
+  let insecure = false;
+  try {
+    const action = new URL(form.action || pageUrl);
+    insecure = action.protocol === 'http:';
+    if (isThirdPartyHost(action.hostname, siteUrl)) recipient = action.hostname;
+  } catch (e) {
+    // Forms without a usable action are submitted by scripts, whose destination can't be read
+  }
+  const vendor = recipient ? classifyHost(recipient) : null;
+
+  return {
+    pageUrl,
+    action: form.action,
+    method: form.method,
+    purpose,
+    personalData,
+    checkboxes: auditCheckboxes(form),
+    privacyLinkNearby: form.links.some(link => scoreLink(link, 'privacyPolicy') > 0),
+    recipient,
+    recipientVendor: vendor ? vendor.name : undefined,
+    insecure
+  };
+};
+
+const describeForms = (forms: FormAudit[]): string => {
+  return Array.from(new Set(forms.map(form => `${form.purpose} form on ${form.pageUrl}`))).slice(0, 5).join(', ');
+};
+
+const evaluateForms = (forms: FormAudit[]): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+
+  const preChecked = forms.filter(form => form.checkboxes.some(checkbox => checkbox.marketing && checkbox.preChecked));
+  if (preChecked.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-2-pre-ticked',
+      ruleName: 'Pre-ticked marketing consent',
+      severity: 'high',
+      description: `Marketing consent checkboxes are ticked by default: ${describeForms(preChecked)}`,
+      recommendation: 'Consent requires an affirmative act (CJEU, Planet49): leave every consent checkbox unticked'
+    });
+  }
+
+  const insecure = forms.filter(form => form.insecure);
+  if (insecure.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-32-form-http',
+      ruleName: 'Personal data submitted over HTTP',
+      severity: 'high',
+      description: `Forms send personal data unencrypted: ${describeForms(insecure)}`,
+      recommendation: 'Serve the forms and their actions over HTTPS only'
+    });
+  }
+
+  const bundled = forms.filter(form => form.checkboxes.some(checkbox => checkbox.bundled));
+  if (bundled.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-2-bundled',
+      ruleName: 'Bundled marketing consent',
+      severity: 'medium',
+      description: `Marketing consent is combined with accepting the terms or privacy policy, or is mandatory: ${describeForms(bundled)}`,
+      recommendation: 'Ask for marketing consent with its own optional checkbox, separate from the terms (GDPR Art. 7(2) and 7(4))'
+    });
+  }
+
+  const withoutNotice = forms.filter(form => !form.privacyLinkNearby);
+  if (withoutNotice.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-1-form-notice',
+      ruleName: 'No privacy information at the point of collection',
+      severity: 'medium',
+      description: `No link to the privacy policy was found in or next to forms collecting personal data: ${describeForms(withoutNotice)}`,
+      recommendation: 'Link to the privacy policy next to each form, with a short notice of what the data is used for (GDPR Art. 13)'
+    });
+  }
+
+  const thirdParty = forms.filter(form => form.recipient);
+  if (thirdParty.length > 0) {
+    const recipients = Array.from(new Set(thirdParty.map(form => form.recipientVendor ? `${form.recipient} (${form.recipientVendor})` : form.recipient)));
+    issues.push({
+      ruleId: 'gdpr-28-form-recipient',
+      ruleName: 'Form data sent to third parties',
+      severity: 'low',
+      description: `Forms post personal data directly to third-party domains: ${recipients.join(', ')}`,
+      recommendation: 'Make sure each recipient is bound by a data processing agreement and named in the privacy policy'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Audits the data-collection forms found on the scanned pages: the personal data they ask for,
+ * how they ask for consent, whether privacy information is at hand and where the data is sent.
+ * Searches and logins are left out.
+ */
+export const analyzeForms = (pages: PageForms[], siteUrl: string): FormsAnalysis => {
+  const forms = pages.flatMap(page => page.forms
+    .map(form => auditForm(page.url, form, siteUrl))
+    .filter((form): form is FormAudit => form !== null));
+
+  const issues = evaluateForms(forms);
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'Forms',
+    sectionText: forms.map(form => `${form.purpose} form on ${form.pageUrl}: ${form.personalData.join(', ')}`).join('\n'),
+    compliant,
+    score,
+    issues,
+    details: {
+      pagesScanned: pages.map(page => page.url),
+      forms
+    }
+  };
+};
@@ -0,0 +1,124 @@
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import type { Readable } from 'stream';
+import { checkUrlSafety, MAX_REDIRECTS, safeLookup } from './urlSafetyService';
+
+// Connections are only opened to public addresses, whatever the DNS answers after the URL was checked
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+// The scanner's name, and the page where site owners can read what it does and how to reach its operator
+const SCANNER_NAME = process.env.SCANNER_USER_AGENT || 'ComplianceChecker/1.0';
+const CONTACT_URL = process.env.SCANNER_CONTACT_URL || '';
+export const SCANNER_AGENT = CONTACT_URL ? `${SCANNER_NAME} (+${CONTACT_URL})` : SCANNER_NAME;
+
+// Sites serving a bare HTTP client a different page than browsers are rare, blocking it outright is not
+const USER_AGENT = `Mozilla/5.0 (compatible; ${SCANNER_AGENT})`;
+
+export interface HttpResponse {
+  url: string; // Final URL, after redirects
+  status: number;
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * Reads a response body, which axios stops past maxContentLength, within the request's timeout
+ */
+const readBody = (stream: Readable, timeout: number, abort: () => void): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  const timer = setTimeout(() => {
+    abort();
+    reject(new Error(`Body not received within ${timeout} ms`));
+  }, timeout);
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  stream.on('end', () => {
+    clearTimeout(timer);
+    resolve(Buffer.concat(chunks));
+  });
+  stream.on('error', error => {
+    clearTimeout(timer);
+    reject(error);
+  });
+});
+
+/**
+ * GETs a URL, following redirects one hop at a time and checking that each hop is safe to load.
+ * Returns null when the resource is unavailable: unsafe URLs, network errors, 4xx/5xx responses, too many redirects
+ * or bodies over maxContentLength, turned down on their Content-Length before they are read when it is declared.
+ */
+export const fetchUrl = async (
+  url: string,
+  {
+    timeout = 15000,
+    maxContentLength = 20 * 1024 * 1024,
+    headers = {}
+  }: { timeout?: number; maxContentLength?: number; headers?: Record<string, string> } = {}
+): Promise<HttpResponse | null> => {
+  // maxRedirects, maxContentLength, the agents and signal are supported by axios but missing from the installed typings
+  const controller = new AbortController();
+  const requestOptions = {
+    timeout,
+    signal: controller.signal,
+    httpAgent,
+    httpsAgent,
+    responseType: 'stream',
+    maxRedirects: 0,
+    maxContentLength,
+    validateStatus: (status: number) => status < 400,
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/pdf;q=0.8,*/*;q=0.5',
+      ...headers
+    }
+  };
+
+  let currentUrl = url;
+  try {
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const unsafe = await checkUrlSafety(currentUrl);
+      if (unsafe) {
+        console.error(`Refusing to load ${currentUrl}: ${unsafe}`);
+        return null;
+      }
+      const response = await axios.get<Readable>(currentUrl, requestOptions);
+      const location = response.headers['location'];
+      const declaredLength = Number(response.headers['content-length']);
+      if (response.status !== 200 || declaredLength > maxContentLength) {
+        response.data.destroy();
+        if (response.status >= 300 && location) {
+          currentUrl = new URL(location, currentUrl).href;
+          continue;
+        }
+        if (declaredLength > maxContentLength) console.error(`Refusing to download ${currentUrl}: ${declaredLength} bytes`);
+        return null;
+      }
+      return {
+        url: currentUrl,
+        status: response.status,
+        contentType: String(response.headers['content-type'] || ''),
+        body: await readBody(response.data, timeout, () => controller.abort())
+      };
+    }
+  } catch (error) {
+    // Network errors and 4xx/5xx responses mean the resource is unavailable
+    // The body of a rejected response is still streaming, its socket is released
+    const body = (error as { response?: { data?: Partial<Readable> } }).response?.data;
+    if (typeof body?.destroy === 'function') body.destroy();
+  }
+  return null;
+};
+
+/**
+ * Decodes a response body using the charset of its Content-Type, UTF-8 by default
+ */
+export const decodeBody = (response: HttpResponse): string => {
+  const charset = response.contentType.match(/charset=["']?([\w-]+)/i)?.[1] || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(response.body);
+  } catch (e) {
+    // Unknown charsets are most often mislabelled UTF-8
+    return new TextDecoder('utf-8').decode(response.body);
+  }
+};
@@ -0,0 +1,232 @@
+import type { Page } from 'playwright';
+import policyKeywords from '@/lib/policy-keywords.json';
+import { DiscoveryMethod, DocumentType } from '@/types';
+import { getRegistrableDomain } from './trackingService';
+import { DOCUMENT_TYPE_KEYS, DOCUMENT_TYPES } from './documentTypeService';
+
+type KeywordCategory = DocumentType | 'legalHub' | 'formPage';
+
+interface KeywordSet {
+  text: string[];
+  url: string[];
+}
+
+export interface Link {
+  text: string;
+  href: string;
+  isFooter?: boolean;
+  isHeader?: boolean;
+  score?: number;
+  discoveryMethod?: DiscoveryMethod;
+}
+
+// The best link found for each document type, types without a match are left out
+export type ComplianceLinks = Partial<Record<DocumentType, Link>>;
+
+// Links scoring below this are not considered a match (a URL-only match scores 4)
+const MIN_LINK_SCORE = 4;
+
+// How far below its best match a link may score and still count for another document
+const AMBIGUITY_MARGIN = 4;
+
+// Keywords this short only match whole words ("tos" must not match "photos")
+const SHORT_KEYWORD_LENGTH = 4;
+
+/**
+ * Lowercases and strips diacritics and punctuation so "Política" matches "politica"
+ */
+const normalize = (value: string): string => {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[’']/g, '\'')
+    .replace(/[^a-z0-9'&\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Merges the keywords of every locale in the dictionary, since the page language is not always declared
+ */
+const buildKeywordIndex = (): Record<KeywordCategory, KeywordSet> => {
+  const index = {} as Record<KeywordCategory, KeywordSet>;
+  for (const category of [...DOCUMENT_TYPE_KEYS, 'legalHub', 'formPage'] as KeywordCategory[]) {
+    index[category] = { text: [], url: [] };
+  }
+
+  const dictionary = policyKeywords as Record<string, Record<KeywordCategory, KeywordSet>>;
+  for (const locale of Object.keys(dictionary)) {
+    for (const category of Object.keys(index) as KeywordCategory[]) {
+      const keywords = dictionary[locale][category];
+      if (!keywords) continue;
+      index[category].text.push(...keywords.text.map(normalize));
+      index[category].url.push(...keywords.url.map(normalize));
+    }
+  }
+
+  return index;
+};
+
+const KEYWORDS = buildKeywordIndex();
+
+const containsKeyword = (haystack: string, keyword: string, separators: RegExp): boolean => {
+  if (keyword.length > SHORT_KEYWORD_LENGTH) {
+    return haystack.includes(keyword);
+  }
+  return haystack.split(separators).includes(keyword);
+};
+
+/**
+ * Scores how likely a link points to a given kind of page.
+ * Specific phrases ("privacy policy") outrank generic ones ("privacy"), and link text outranks the URL.
+ */
+export const scoreLink = (link: Link, category: KeywordCategory, pageUrl?: string): number => {
+  let parsed: URL;
+  try {
+    parsed = new URL(link.href);
+  } catch (e) {
+    return 0;
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) return 0;
+
+  // In-page anchors usually open the cookie settings or a modal, not a document
+  if (pageUrl && parsed.hash && parsed.href.split('#')[0] === pageUrl.split('#')[0]) return 0;
+
+  const text = normalize(link.text);
+  let rawPath = parsed.pathname + parsed.search;
+  try {
+    rawPath = decodeURIComponent(rawPath);
+  } catch (e) {
+    // Keep the encoded path when it contains malformed escape sequences
+  }
+  const path = normalize(rawPath.replace(/[/_.=?]/g, '-'));
+  const keywords = KEYWORDS[category];
+
+  let textScore = 0;
+  for (const keyword of keywords.text) {
+    const wordCount = keyword.split(' ').length;
+    if (text === keyword) {
+      textScore = Math.max(textScore, 12 + wordCount);
+    } else if (containsKeyword(text, keyword, /\s+/)) {
+      textScore = Math.max(textScore, 8 + wordCount);
+    }
+  }
+
+  let urlScore = 0;
+  for (const keyword of keywords.url) {
+    if (containsKeyword(path, keyword, /-+/)) {
+      urlScore = Math.max(urlScore, keyword.includes('-') ? 5 : 4);
+    }
+  }
+
+  if (textScore === 0 && urlScore === 0) return 0;
+
+  let score = textScore + urlScore;
+  if (link.isFooter) score += 2;
+  if (text.length > 80) score -= 4;
+  if (pageUrl && getRegistrableDomain(parsed.hostname) !== getRegistrableDomain(new URL(pageUrl).hostname)) score -= 2;
+
+  return score;
+};
+
+/**
+ * Lists every link of a document, flagging those in the header or footer.
+ * Runs in the browser, so it must stay self-contained; static HTML is passed as `root`
+ * with the URL its relative links resolve against.
+ */
+const listLinks = (root?: Document, baseUrl?: string): Link[] => {
+  const doc = root || document;
+  const footerSelector = 'footer, .footer, #footer, [role="contentinfo"], .bottom, .site-info';
+  const headerSelector = 'header, .header, #header, [role="banner"]';
+
+  const resolve = (a: HTMLAnchorElement): string => {
+    if (!baseUrl) return a.href;
+    try {
+      return new URL(a.getAttribute('href') || '', baseUrl).href;
+    } catch (e) {
+      return '';
+    }
+  };
+
+  return Array.from(doc.querySelectorAll('a')).map(a => ({
+    text: (a.textContent || a.getAttribute('aria-label') || a.title || '').trim().toLowerCase(),
+    href: resolve(a),
+    isFooter: a.closest(footerSelector) !== null,
+    isHeader: a.closest(headerSelector) !== null
+  }));
+};
+
+/**
+ * Collects every link of a page, flagging those in the header or footer
+ */
+export const collectPageLinks = async (page: Page): Promise<Link[]> => {
+  // No root: the links are listed from the page's own document
+  return await page.evaluate(listLinks, undefined);
+};
+
+/**
+ * Collects every link of a document parsed from static HTML
+ */
+export const collectDocumentLinks = (document: Document, baseUrl: string): Link[] => {
+  return listLinks(document, baseUrl);
+};
+
+/**
+ * Picks the best scoring link for each compliance document.
+ * A link is only assigned to the documents it scores (nearly) highest for, so that
+ * "/legal/privacy" is not taken for the terms of service while a "Privacy & Cookies"
+ * link still counts for both policies.
+ */
+export const rankComplianceLinks = (links: Link[], pageUrl?: string): ComplianceLinks => {
+  const best: ComplianceLinks = {};
+
+  for (const link of links) {
+    const scores = DOCUMENT_TYPE_KEYS.map(key => scoreLink(link, key, pageUrl));
+    const topScore = Math.max(...scores);
+    if (topScore < MIN_LINK_SCORE) continue;
+
+    DOCUMENT_TYPE_KEYS.forEach((key, index) => {
+      const score = scores[index];
+      if (score < MIN_LINK_SCORE || score < topScore - AMBIGUITY_MARGIN) return;
+      const current = best[key];
+      if (!current || (current.score ?? 0) < score) {
+        best[key] = { ...link, score };
+      }
+    });
+  }
+
+  return best;
+};
+
+/**
+ * Whether every document expected on any site has been found
+ */
+export const hasRequiredDocuments = (links: ComplianceLinks): boolean => {
+  return DOCUMENT_TYPES.every(type => !type.required || !!links[type.key]);
+};
+
+/**
+ * Ranks the distinct links matching a category, best first
+ */
+const rankLinks = (links: Link[], category: KeywordCategory, pageUrl?: string): Link[] => {
+  return links
+    .map(link => ({ ...link, score: scoreLink(link, category, pageUrl) }))
+    .filter(link => link.score >= MIN_LINK_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .filter((link, index, ranked) => ranked.findIndex(other => other.href === link.href) === index);
+};
+
+/**
+ * Ranks links to pages likely to list the compliance documents (legal, about, help)
+ */
+export const rankLegalHubLinks = (links: Link[], pageUrl?: string): Link[] => {
+  return rankLinks(links, 'legalHub', pageUrl);
+};
+
+/**
+ * Ranks links to pages likely to hold a data-collection form (contact, sign-up, newsletter)
+ */
+export const rankFormPageLinks = (links: Link[], pageUrl?: string): Link[] => {
+  return rankLinks(links, 'formPage', pageUrl);
+};
@@ -0,0 +1,220 @@
+import type { BrowserContext, Page } from 'playwright';
+import { LoginReport, LoginStep } from '@/types';
+import type { BrowserSession } from './browserPoolService';
+import { loadPolitely } from './politenessService';
+
+// Steps in a login script, enough for a cookie wall, a two-page form and a redirect
+const MAX_STEPS = 20;
+
+const STEP_TIMEOUT = 15000;
+const MAX_STEP_TIMEOUT = 60000;
+
+// Only variables under this prefix can be typed into a site, never the server's other configuration
+const SECRET_PREFIX = 'LOGIN_SECRET_';
+const SECRET_NAME = /^[A-Z][A-Z0-9_]*$/;
+
+export type LoginState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface LoginSession {
+  report: LoginReport;
+  storageState: LoginState | null; // the cookies and storage of the logged-in visitor, never reported
+  secrets: string[]; // the values typed into the site, so that URLs carrying them are left out of reports
+}
+
+interface LoginSecret {
+  value: string;
+  domains: string[];
+}
+
+/**
+ * Reads a secret from the environment: LOGIN_SECRET_<NAME> holds the value and LOGIN_SECRET_<NAME>_DOMAINS the
+ * comma-separated domains it may be typed into, so that a script can't send it to another site
+ */
+const readSecret = (name: string): LoginSecret | null => {
+  const value = process.env[`${SECRET_PREFIX}${name}`];
+  const domains = (process.env[`${SECRET_PREFIX}${name}_DOMAINS`] || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean);
+  return value && domains.length > 0 ? { value, domains } : null;
+};
+
+const isSecretDomain = (host: string, secret: LoginSecret): boolean => {
+  const hostname = host.toLowerCase();
+  return secret.domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+};
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch (e) {
+    return false;
+  }
+};
+
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * A secret as it may appear in a message or URL: as typed, or encoded by a form sent with GET
+ */
+const getSecretForms = (secret: string): string[] => {
+  const encoded = encodeURIComponent(secret);
+  return [secret, encoded, encoded.replace(/%20/g, '+')];
+};
+
+/**
+ * Whether a text, such as a URL the site sent the browser to, contains one of the secrets typed into the site
+ */
+export const containsSecret = (text: string, secrets: string[]): boolean => {
+  return secrets.some(secret => getSecretForms(secret).some(form => text.includes(form)));
+};
+
+const redactSecrets = (text: string, secrets: string[]): string => {
+  return secrets.reduce(
+    (redacted, secret) => getSecretForms(secret).reduce((result, form) => result.split(form).join('***'), redacted),
+    text
+  );
+};
+
+/**
+ * Checks a step of a login script, returning why it can't be run
+ */
+const checkLoginStep = (input: unknown): string | null => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return 'must be an object';
+  const step = input as Record<string, unknown>;
+
+  switch (step.action) {
+    case 'navigate':
+      return isHttpUrl(step.url) ? null : 'url must be an absolute http(s) URL';
+    case 'fill': {
+      if (step.value !== undefined) return 'values can\'t be sent with the request, name a server-side secret instead';
+      if (!isText(step.selector)) return 'selector is required';
+      if (typeof step.secret !== 'string' || !SECRET_NAME.test(step.secret)) {
+        return 'secret must be the name of a server-side secret, in upper case';
+      }
+      return readSecret(step.secret) ? null : `secret ${step.secret} is not configured on the server, or has no domains`;
+    }
+    case 'click':
+      return isText(step.selector) ? null : 'selector is required';
+    case 'waitFor': {
+      if (step.selector !== undefined && !isText(step.selector)) return 'selector must be a non-empty string';
+      if (step.url !== undefined && !isText(step.url)) return 'url must be a non-empty glob';
+      if (step.selector === undefined && step.url === undefined) return 'a selector or url to wait for is required';
+      const { timeout } = step;
+      if (timeout !== undefined && (typeof timeout !== 'number' || !Number.isInteger(timeout) || timeout < 1 || timeout > MAX_STEP_TIMEOUT)) {
+        return `timeout must be an integer between 1 and ${MAX_STEP_TIMEOUT}`;
+      }
+      return null;
+    }
+    default:
+      return 'action must be one of: navigate, fill, click, waitFor';
+  }
+};
+
+/**
+ * Checks a login script sent with a request, returning why it can't be run
+ */
+export const checkLoginScript = (input: unknown): string | null => {
+  if (input === undefined) return null;
+  if (!Array.isArray(input) || input.length === 0) return 'login must be a non-empty list of steps';
+  if (input.length > MAX_STEPS) return `a login script has at most ${MAX_STEPS} steps`;
+  for (let i = 0; i < input.length; i++) {
+    const error = checkLoginStep(input[i]);
+    if (error) return `step ${i + 1}: ${error}`;
+  }
+  return null;
+};
+
+/**
+ * Runs a step on the page, adding the secret values it types to `typed`
+ */
+const runStep = async (page: Page, step: LoginStep, typed: string[]): Promise<void> => {
+  switch (step.action) {
+    case 'navigate':
+      await loadPolitely(step.url, () => page.goto(step.url, { waitUntil: 'domcontentloaded', timeout: STEP_TIMEOUT }));
+      return;
+    case 'fill': {
+      // Checked again on the page itself, which redirects may have taken to another site
+      const secret = readSecret(step.secret);
+      const host = new URL(page.url()).hostname;
+      if (!secret || !isSecretDomain(host, secret)) {
+        throw new Error(`Secret ${step.secret} may not be typed into ${host}`);
+      }
+      typed.push(secret.value);
+      await page.locator(step.selector).first().fill(secret.value, { timeout: STEP_TIMEOUT });
+      return;
+    }
+    case 'click':
+      await page.locator(step.selector).first().click({ timeout: STEP_TIMEOUT });
+      return;
+    case 'waitFor': {
+      const timeout = step.timeout ?? STEP_TIMEOUT;
+      if (step.selector) await page.locator(step.selector).first().waitFor({ state: 'visible', timeout });
+      if (step.url) await page.waitForURL(step.url, { timeout });
+      return;
+    }
+  }
+};
+
+/**
+ * Logs into the site with a script of steps, starting from the scanned page unless the script navigates first.
+ * The steps run in a context of their own, whose cookies and storage are then handed to the crawl.
+ * A failed login is reported rather than failing the scan, which carries on with the public pages.
+ */
+export const runLoginScript = async (session: BrowserSession, url: string, steps: LoginStep[]): Promise<LoginSession> => {
+  // Secrets are only typed into a site whose certificate is trusted
+  const context = await session.newContext({ ignoreHTTPSErrors: false });
+  const typed: string[] = [];
+  let completedSteps = 0;
+  try {
+    const page = await context.newPage();
+    if (steps[0]?.action !== 'navigate') {
+      await loadPolitely(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: STEP_TIMEOUT }));
+    }
+    for (const step of steps) {
+      await runStep(page, step, typed);
+      completedSteps++;
+    }
+    // A form sent with GET leaves its values in the URL, which is then neither reported nor crawled
+    const landingUrl = containsSecret(page.url(), typed) ? null : page.url();
+    return {
+      report: { steps: steps.length, completedSteps, succeeded: true, landingUrl },
+      storageState: await context.storageState(),
+      secrets: typed
+    };
+  } catch (error) {
+    // Secrets never leave the server, not even echoed in an error message
+    const message = redactSecrets(error instanceof Error ? error.message : String(error), typed);
+    const step = steps[completedSteps];
+    console.error(`Error logging into ${url} at step ${completedSteps + 1}:`, message);
+    return {
+      report: {
+        steps: steps.length,
+        completedSteps,
+        succeeded: false,
+        landingUrl: null,
+        error: step ? `Step ${completedSteps + 1} (${step.action}) failed: ${message}` : message
+      },
+      storageState: null,
+      secrets: typed
+    };
+  } finally {
+    await context.close().catch(err => console.error('Error closing login context:', err));
+  }
+};
+
+/**
+ * The report of a login script that couldn't run because the scan has no browser
+ */
+export const getSkippedLogin = (steps: LoginStep[]): LoginSession => ({
+  report: {
+    steps: steps.length,
+    completedSteps: 0,
+    succeeded: false,
+    landingUrl: null,
+    error: 'Logging in needs a browser, only the public pages were scanned'
+  },
+  storageState: null,
+  secrets: []
+});
@@ -0,0 +1,268 @@
+import type { Page } from 'playwright';
+import { SITE_CHROME_SELECTOR } from './policyExtractionService';
+import { loadPolitely } from './politenessService';
+
+// Controls are never clicked inside site chrome or consent banners, where they could open menus or give consent
+const EXCLUDED_CONTROLS_SELECTOR = `${SITE_CHROME_SELECTOR}, header, footer`;
+
+// "Expand all" and "read more" controls, compared after lowercasing and stripping trailing arrows and ellipses
+const EXPAND_LABELS = [
+  'expand all', 'open all', 'show all', 'read more', 'show more', 'see more', 'view more', 'read full policy',
+  'tout déplier', 'tout ouvrir', 'tout afficher', 'lire la suite', 'voir plus', 'afficher plus',
+  'alle öffnen', 'alle ausklappen', 'alle anzeigen', 'weiterlesen', 'mehr anzeigen', 'mehr lesen',
+  'mostrar todo', 'expandir todo', 'leer más', 'ver más', 'mostra tutto', 'espandi tutto', 'leggi di più', 'mostra di più',
+  'alles uitklappen', 'lees meer', 'toon meer', 'expandir tudo', 'ler mais', 'ver mais', 'mostrar mais',
+  'rozwiń wszystko', 'czytaj więcej', 'pokaż więcej', 'visa alla', 'läs mer', 'visa mer', 'vis alle', 'læs mere', 'vis mere'
+];
+
+// Links to the next page of a paginated document
+const NEXT_PAGE_LABELS = [
+  'next', 'next page', 'suivant', 'page suivante', 'weiter', 'nächste', 'nächste seite', 'siguiente',
+  'página siguiente', 'successivo', 'successiva', 'pagina successiva', 'avanti', 'volgende', 'próximo', 'próxima',
+  'seguinte', 'następna', 'dalej', 'nästa', 'næste'
+];
+
+// Panels of accordion and tab widgets that hide their content with CSS rather than ARIA
+const COLLAPSED_PANEL_SELECTOR = [
+  '[role="tabpanel"]', '.collapse', '.accordion-collapse', '.accordion-content', '.accordion-body',
+  '.accordion__panel', '.accordion-panel', '[data-state="closed"]'
+].join(', ');
+
+// Clicks per round, so that a page full of toggles can't keep the scraper busy
+const MAX_CLICKS = 200;
+const EXPANSION_ROUNDS = 2;
+
+// Multi-page policies longer than this are cut off
+const MAX_POLICY_PAGES = 10;
+
+interface ExpandArgs {
+  excludedSelector: string;
+  expandLabels: string[];
+  panelSelector: string;
+  maxClicks: number;
+}
+
+/**
+ * Opens <details> elements, clicks "expand all", "read more" and collapsed accordion toggles,
+ * then reveals the panels they control, which single-open accordions would close again.
+ * Runs in the browser, so it must stay self-contained. Returns the number of clicks.
+ */
+const expandCollapsedElements = ({ excludedSelector, expandLabels, panelSelector, maxClicks }: ExpandArgs): number => {
+  let clicks = 0;
+
+  const isExcluded = (element: Element) => element.closest(excludedSelector) !== null;
+
+  const click = (element: Element) => {
+    if (clicks >= maxClicks || isExcluded(element)) return;
+    // Links to other pages and form submissions would navigate away
+    const href = (element.getAttribute('href') || '').trim().toLowerCase();
+    if (element.tagName === 'A' && href && !href.startsWith('#') && !href.startsWith('javascript:')) return;
+    if (element.closest('form') && element.getAttribute('type') !== 'button') return;
+
+    try {
+      (element as HTMLElement).click();
+      clicks++;
+    } catch (e) {
+      // Broken handlers must not stop the expansion
+    }
+  };
+
+  const reveal = (panel: Element) => {
+    let element: Element | null = panel;
+    // Panels nested in collapsed sections only show once their ancestors do
+    while (element && element !== document.body && !isExcluded(element)) {
+      const htmlElement = element as HTMLElement;
+      htmlElement.removeAttribute('hidden');
+      if (htmlElement.getAttribute('aria-hidden') === 'true') htmlElement.setAttribute('aria-hidden', 'false');
+
+      const style = window.getComputedStyle(htmlElement);
+      if (style.display === 'none') htmlElement.style.setProperty('display', 'block', 'important');
+      if (style.visibility === 'hidden') htmlElement.style.setProperty('visibility', 'visible', 'important');
+      element = element.parentElement;
+    }
+  };
+
+  Array.from(document.querySelectorAll('details')).forEach(details => {
+    if (!isExcluded(details)) (details as HTMLDetailsElement).open = true;
+  });
+
+  Array.from(document.querySelectorAll('button, a, [role="button"]')).forEach(control => {
+    const label = (control.textContent || control.getAttribute('aria-label') || '')
+      .toLowerCase()
+      .replace(/\s+/g, ' ')
+      .replace(/[\s.…+›»>▼▾↓]+$/, '')
+      .trim();
+    if (expandLabels.indexOf(label) !== -1) click(control);
+  });
+
+  // Menus and comboboxes also use aria-expanded but only open floating lists
+  Array.from(document.querySelectorAll('[aria-expanded="false"]')).forEach(toggle => {
+    if (toggle.matches('[aria-haspopup]:not([aria-haspopup="false"]), [role="combobox"], select')) return;
+    click(toggle);
+  });
+
+  Array.from(document.querySelectorAll('[aria-controls]')).forEach(toggle => {
+    if (isExcluded(toggle)) return;
+    (toggle.getAttribute('aria-controls') || '').split(/\s+/).forEach(id => {
+      const panel = id ? document.getElementById(id) : null;
+      if (panel) reveal(panel);
+    });
+  });
+  Array.from(document.querySelectorAll(panelSelector)).forEach(reveal);
+
+  return clicks;
+};
+
+/**
+ * Expands accordions, tabs, <details> and "read more" blocks so their content can be extracted
+ */
+const expandCollapsedContent = async (page: Page): Promise<void> => {
+  for (let round = 0; round < EXPANSION_ROUNDS; round++) {
+    const clicks = await page.evaluate(expandCollapsedElements, {
+      excludedSelector: EXCLUDED_CONTROLS_SELECTOR,
+      expandLabels: EXPAND_LABELS,
+      panelSelector: COLLAPSED_PANEL_SELECTOR,
+      maxClicks: MAX_CLICKS
+    });
+    if (!clicks) return;
+
+    // Some accordions fetch their content when opened, and may contain nested accordions
+    await page.waitForLoadState('networkidle', { timeout: 3000 }).catch(() => {});
+    await page.waitForTimeout(300);
+  }
+};
+
+/**
+ * Finds the link to the next page of a paginated document: rel="next", a "next" label,
+ * or the number following the current page in a pagination block. Returns the raw href.
+ * Runs in the browser, so it must stay self-contained; static HTML is passed as `root`.
+ */
+const findNextPageLink = (nextLabels: string[], root?: Document): string | null => {
+  const doc = root || document;
+  const relNext = doc.querySelector('link[rel~="next"][href], a[rel~="next"][href]');
+  if (relNext) return relNext.getAttribute('href');
+
+  const pagination = Array.from(doc.querySelectorAll(
+    '.pagination, .pager, [class*="pagination"], [aria-label*="pagination" i], [aria-label*="pages" i]'
+  ));
+  const links: Element[] = [];
+  pagination.forEach(container => {
+    Array.from(container.querySelectorAll('a[href]')).forEach(link => links.push(link));
+  });
+
+  for (const link of links) {
+    const text = (link.textContent || link.getAttribute('aria-label') || '').toLowerCase().replace(/\s+/g, ' ').trim();
+    const label = text.replace(/[«»‹›←→<>]/g, '').trim();
+    if (nextLabels.indexOf(label) !== -1 || (!label && /[»›→>]/.test(text))) return link.getAttribute('href');
+  }
+
+  let currentPage = 1;
+  for (const container of pagination) {
+    const current = container.querySelector('[aria-current="page"], .active, .current');
+    const number = Number((current?.textContent || '').trim());
+    if (number) {
+      currentPage = number;
+      break;
+    }
+  }
+  for (const link of links) {
+    if ((link.textContent || '').trim() === String(currentPage + 1)) return link.getAttribute('href');
+  }
+
+  return null;
+};
+
+/**
+ * Strips page numbers from a path, so that "/privacy/page/2" and "/privacy-2" are recognised as "/privacy"
+ */
+const getDocumentPath = (pathname: string): string => {
+  return pathname
+    .replace(/\/+$/, '')
+    .replace(/\/(page|p|seite|pagina|página|strona|sida|side)\/?\d+$/i, '')
+    .replace(/[/-]\d+$/, '');
+};
+
+/**
+ * Resolves the link to the next page of a document, or returns null when it leads elsewhere.
+ * Links to other documents of the site are ignored, even in a pagination block.
+ */
+const toNextPageUrl = (href: string | null, currentUrl: string, visited: string[]): string | null => {
+  if (!href) return null;
+
+  try {
+    const next = new URL(href, currentUrl);
+    const current = new URL(currentUrl);
+    next.hash = '';
+    if (next.origin !== current.origin) return null;
+    if (getDocumentPath(next.pathname) !== getDocumentPath(current.pathname)) return null;
+    if (visited.includes(next.href)) return null;
+    return next.href;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Extracts a document that may be split over several pages, expanding its collapsed content first.
+ * The pages are merged in order; the browser page is left on the document's last page.
+ */
+export const extractPaginatedDocument = async (page: Page, extract: (page: Page) => Promise<string>): Promise<string> => {
+  const current = new URL(page.url());
+  current.hash = '';
+  const visited = [current.href];
+  const parts: string[] = [];
+
+  while (true) {
+    await expandCollapsedContent(page);
+    parts.push(await extract(page));
+    if (visited.length >= MAX_POLICY_PAGES) break;
+
+    const href = await page.evaluate(findNextPageLink, NEXT_PAGE_LABELS);
+    const nextUrl = toNextPageUrl(href, page.url(), visited);
+    if (!nextUrl) break;
+
+    console.log(`Following the document's pagination to ${nextUrl}`);
+    visited.push(nextUrl);
+    try {
+      await loadPolitely(nextUrl, () => page.goto(nextUrl, { waitUntil: 'domcontentloaded', timeout: 15000 }));
+    } catch (error) {
+      console.error(`Error loading page ${visited.length} of the document:`, error);
+      break;
+    }
+  }
+
+  return parts.filter(Boolean).join('\n\n');
+};
+
+/**
+ * Extracts a document parsed from static HTML that may be split over several pages.
+ * `load` fetches and parses a further page, returning null when it is unavailable.
+ */
+export const extractStaticPaginatedDocument = async (
+  url: string,
+  document: Document,
+  load: (url: string) => Promise<Document | null>,
+  extract: (document: Document) => string
+): Promise<string> => {
+  const first = new URL(url);
+  first.hash = '';
+  const visited = [first.href];
+  const parts: string[] = [];
+  let current = { url, document };
+
+  while (true) {
+    parts.push(extract(current.document));
+    if (visited.length >= MAX_POLICY_PAGES) break;
+
+    const nextUrl = toNextPageUrl(findNextPageLink(NEXT_PAGE_LABELS, current.document), current.url, visited);
+    if (!nextUrl) break;
+
+    console.log(`Following the document's pagination to ${nextUrl}`);
+    visited.push(nextUrl);
+    const next = await load(nextUrl);
+    if (!next) break;
+    current = { url: nextUrl, document: next };
+  }
+
+  return parts.filter(Boolean).join('\n\n');
+};
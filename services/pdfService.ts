@@ -0,0 +1,78 @@
+import type { BrowserContext } from 'playwright';
+import { extractText, getDocumentProxy } from 'unpdf';
+import { fetchUrl } from './httpService';
+import { loadPolitely } from './politenessService';
+
+// Larger downloads are brochures or scans rather than policies
+const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Whether a URL points to a PDF file by its extension
+ */
+export const isPdfUrl = (url: string): boolean => {
+  try {
+    return new URL(url).pathname.toLowerCase().endsWith('.pdf');
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Whether a Content-Type header describes a PDF document
+ */
+export const isPdfContentType = (contentType: string | undefined): boolean => {
+  return !!contentType && /^application\/(x-)?pdf\b/i.test(contentType.trim());
+};
+
+/**
+ * Headless Chromium downloads PDFs instead of rendering them, which aborts the navigation
+ */
+export const isPdfDownloadError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('Download is starting');
+};
+
+/**
+ * Extracts the text of a PDF file, page after page
+ */
+export const extractPdfText = async (data: Uint8Array): Promise<string> => {
+  const pdf = await getDocumentProxy(data);
+  try {
+    const { text } = await extractText(pdf, { mergePages: false });
+    return text
+      .map(pageText => pageText.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim())
+      .filter(Boolean)
+      .join('\n\n');
+  } finally {
+    await pdf.loadingTask.destroy();
+  }
+};
+
+/**
+ * Downloads a document with the browser context's cookies and returns its text if it is a PDF.
+ * Returns null when the URL serves anything else, so the caller can render it as a web page.
+ */
+export const fetchPdfText = async (context: BrowserContext, url: string): Promise<string | null> => {
+  // The context's request API buffers whole responses, the HTTP client rejects a large Content-Length
+  // up front and stops reading a body without one once it goes past the limit
+  const cookies = await context.cookies(url);
+  const response = await loadPolitely(url, () => fetchUrl(url, {
+    timeout: 30000,
+    maxContentLength: MAX_PDF_BYTES,
+    headers: cookies.length > 0 ? { Cookie: cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') } : {}
+  }));
+  if (!response) {
+    throw new Error(`Failed to download ${url}, unavailable or larger than ${MAX_PDF_BYTES / 1024 / 1024} MB`);
+  }
+
+  // Some servers send PDFs as application/octet-stream, the file signature is authoritative
+  const isPdf = isPdfContentType(response.contentType) || response.body.subarray(0, 5).toString('latin1') === '%PDF-';
+  if (!isPdf) return null;
+
+  const text = await extractPdfText(new Uint8Array(response.body));
+  if (!text) {
+    // Scanned PDFs only contain images, which would need OCR
+    throw new Error(`PDF document at ${url} contains no extractable text`);
+  }
+  return text;
+};
@@ -0,0 +1,193 @@
+import type { BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import type { BrowserSession } from './browserPoolService';
+import { CrawlPage, LoadedDocument, MIN_DOCUMENT_LENGTH, PageFetcher, PageLinks } from './fetcherService';
+import { collectPageForms, PageForms } from './formService';
+import { collectPageLinks } from './linkDiscoveryService';
+import { fetchPdfText, isPdfContentType, isPdfDownloadError, isPdfUrl } from './pdfService';
+import { extractPageMarkdown } from './policyExtractionService';
+import { extractPaginatedDocument } from './pageExpansionService';
+import { loadPolitely } from './politenessService';
+import { collectTrackingSnapshot, startNetworkCapture } from './trackingService';
+import { assertSafeUrl } from './urlSafetyService';
+
+/**
+ * Extracts the readable text of a rendered page, without navigation and other boilerplate
+ */
+const readPageText = async (page: Page): Promise<string> => {
+  return await page.evaluate(() => {
+    // Attempt to remove non-content elements to reduce noise
+    const elementsToRemove = [
+      'header', 'nav', 'footer', '.header', '.footer', '.navigation', '.menu', 
+      '.cookie-banner', '.cookie-notice', '.sidebar', '.ads', '.advertisement'
+    ];
+    
+    elementsToRemove.forEach(selector => {
+      document.querySelectorAll(selector).forEach(el => {
+        try { el.remove(); } catch (e) {}
+      });
+    });
+    
+    // Try to find policy specific container first
+    const possiblePolicyContainers = [
+      '.privacy-policy', '.privacy', '.policy-content', '.cookie-policy',
+      '#privacy-policy', '#cookie-policy', '.terms-content', '.legal-content',
+      '[data-content="privacy"]', '[data-content="policy"]',
+      'article', 'main', '.main-content', '.content-main', '.content'
+    ];
+    
+    let policyContainer = null;
+    for (const selector of possiblePolicyContainers) {
+      const container = document.querySelector(selector);
+      if (container && container.textContent && container.textContent.trim().length > 200) {
+        policyContainer = container;
+        break;
+      }
+    }
+    
+    // Extract clean text
+    function extractCleanText(element: HTMLElement) {
+      // Get all text nodes
+      const textNodes = [];
+      const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+      let node;
+      while (node = walker.nextNode()) {
+        // Only keep non-empty text nodes
+        if ((node.textContent ?? '').trim()) {
+          // Check if the parent is not a script or style element
+          const parentNodeName = node.parentElement?.nodeName.toLowerCase() ?? '';
+          if (parentNodeName !== 'script' && parentNodeName !== 'style') {
+            textNodes.push(node.textContent);  // Store the text content, not the node
+          }
+        }
+      }
+      
+      // Join with newlines for readability
+      return textNodes.join('\n').replace(/\n{3,}/g, '\n\n');
+    }
+    
+    // If we found a specific container, return just that content
+    if (policyContainer) {
+      return extractCleanText(policyContainer as HTMLElement);
+    }
+    
+    // Otherwise, return the text from the body
+    return extractCleanText(document.body as HTMLElement);
+  });
+};
+
+/**
+ * Loads the text of a compliance document, whether it is a web page or a PDF file.
+ * PDFs are recognised by their extension or by the Content-Type of the response and parsed locally.
+ */
+const loadDocument = async (context: BrowserContext, url: string): Promise<LoadedDocument> => {
+  await assertSafeUrl(url);
+  if (isPdfUrl(url)) {
+    const pdfText = await fetchPdfText(context, url);
+    if (pdfText !== null) return { text: pdfText, format: 'pdf' };
+  }
+  
+  const page = await context.newPage();
+  try {
+    let response = null;
+    let downloadStarted = false;
+    try {
+      // Skip waiting for network idle which is very slow
+      response = await loadPolitely(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 }));
+    } catch (error) {
+      if (!isPdfDownloadError(error)) throw error;
+      downloadStarted = true;
+    }
+    
+    // PDFs served from URLs without a .pdf extension
+    if (downloadStarted || isPdfContentType(response?.headers()['content-type'])) {
+      const pdfText = await fetchPdfText(context, url);
+      if (pdfText !== null) return { text: pdfText, format: 'pdf' };
+      if (downloadStarted) throw new Error(`${url} is a download, not a document`);
+    }
+    
+    const text = await extractPaginatedDocument(page, extractPageMarkdown);
+    // Pages whose structure the extractor can't make sense of are left to the LLM extractor as plain text
+    const rawText = text.length < MIN_DOCUMENT_LENGTH ? await readPageText(page) : undefined;
+    return { text, format: 'html', rawText };
+  } finally {
+    // Close the page as we don't need it anymore
+    await page.close();
+  }
+};
+
+/**
+ * Lists the links of a page once rendered
+ */
+const getPageLinks = async (context: BrowserContext, url: string, timeout: number): Promise<PageLinks> => {
+  await assertSafeUrl(url);
+  const page = await context.newPage();
+  try {
+    await loadPolitely(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout }));
+    return { url: page.url(), links: await collectPageLinks(page) };
+  } finally {
+    await page.close();
+  }
+};
+
+/**
+ * Lists the forms of a page once rendered, giving scripts a moment to inject them
+ */
+const getPageForms = async (context: BrowserContext, url: string): Promise<PageForms> => {
+  await assertSafeUrl(url);
+  const page = await context.newPage();
+  try {
+    await loadPolitely(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 }));
+    await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+    return { url: page.url(), forms: await collectPageForms(page) };
+  } finally {
+    await page.close();
+  }
+};
+
+/**
+ * Renders a page of the crawl, recording the third-party requests it makes and the cookies set so far
+ */
+const crawlPage = async (context: BrowserContext, url: string): Promise<CrawlPage> => {
+  await assertSafeUrl(url);
+  const page = await context.newPage();
+  try {
+    const capture = startNetworkCapture(page, url);
+    await loadPolitely(url, () => page.goto(url, { waitUntil: 'domcontentloaded', timeout: 15000 }));
+    const tracking = await collectTrackingSnapshot(page, url, capture);
+    capture.stop();
+    return {
+      url: page.url(),
+      links: await collectPageLinks(page),
+      forms: await collectPageForms(page),
+      tracking
+    };
+  } finally {
+    await page.close();
+  }
+};
+
+/**
+ * Creates a fetcher rendering pages in a browser context of the scan's session, shared by all its pages.
+ * The crawl gets a context of its own, so that its cookies are only those set by the pages it visits,
+ * besides those of a login passed in `crawlOptions`.
+ */
+export const createPlaywrightFetcher = (session: BrowserSession, crawlOptions?: BrowserContextOptions): PageFetcher => {
+  let contextPromise: Promise<BrowserContext> | null = null;
+  const getContext = () => {
+    if (!contextPromise) contextPromise = session.newContext();
+    return contextPromise;
+  };
+  let crawlContextPromise: Promise<BrowserContext> | null = null;
+  const getCrawlContext = () => {
+    if (!crawlContextPromise) crawlContextPromise = session.newContext(crawlOptions);
+    return crawlContextPromise;
+  };
+
+  return {
+    name: 'playwright',
+    getPageLinks: async (url, timeout = 30000) => getPageLinks(await getContext(), url, timeout),
+    loadDocument: async url => loadDocument(await getContext(), url),
+    getPageForms: async url => getPageForms(await getContext(), url),
+    crawlPage: async url => crawlPage(await getCrawlContext(), url)
+  };
+};
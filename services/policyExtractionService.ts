@@ -0,0 +1,322 @@
+import type { Page } from 'playwright';
+import { DocumentHeading } from '@/types';
+
+// Site chrome, widgets and consent banners, which are never part of a policy
+export const SITE_CHROME_SELECTOR = [
+  'nav', 'aside', 'dialog', '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="dialog"]',
+  '[role="alertdialog"]', '.header', '.footer', '.navigation', '.menu', '.sidebar', '.breadcrumb', '.breadcrumbs',
+  '.skip-link', '.pagination', '.pager', '[aria-label*="pagination" i]', '.cookie-banner', '.cookie-notice',
+  '.ads', '.advertisement', '.share', '.social',
+  '#onetrust-consent-sdk', '#CybotCookiebotDialog', '#usercentrics-root', '#didomi-host', '.qc-cmp2-container'
+].join(', ');
+
+// Elements that hold no policy text
+const BOILERPLATE_SELECTOR = [
+  SITE_CHROME_SELECTOR, 'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'img', 'picture',
+  'video', 'audio', 'form', 'input', 'select', 'textarea', '[aria-hidden="true"]'
+].join(', ');
+
+// Containers likely to hold the policy itself, most specific first
+const CONTAINER_SELECTORS = [
+  '.privacy-policy', '.privacy', '.policy-content', '.cookie-policy',
+  '#privacy-policy', '#cookie-policy', '.terms-content', '.legal-content',
+  '[data-content="privacy"]', '[data-content="policy"]',
+  'article', 'main', '[role="main"]', '.main-content', '.content-main', '.content'
+];
+
+// Containers with less text than this are wrappers around a teaser, not the policy
+const MIN_CONTAINER_LENGTH = 200;
+
+// Headings of the sections of a privacy policy that describe cookies and similar technologies
+const COOKIE_HEADING_PATTERN = /cookie|traceur|tracker|tracking technolog|similar technolog|tecnologias similares|tecnologie simili/;
+
+interface RenderArgs {
+  boilerplateSelector: string;
+  containerSelectors: string[];
+  minContainerLength: number;
+}
+
+/**
+ * Renders the main content of a document as Markdown, keeping headings, lists and tables.
+ * Runs in the browser, so it must stay self-contained. Given a `root` parsed from static HTML,
+ * it runs in Node.js instead, where there are no styles to tell hidden elements apart.
+ */
+const renderPageMarkdown = ({ boilerplateSelector, containerSelectors, minContainerLength }: RenderArgs, root?: Document): string => {
+  const doc = root || document;
+  const TEXT_NODE = 3;
+  const ELEMENT_NODE = 1;
+  const BLOCK_TAGS = [
+    'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'CENTER', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET',
+    'FIGCAPTION', 'FIGURE', 'FOOTER', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN',
+    'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'TBODY', 'TD', 'TFOOT', 'TH', 'THEAD', 'TR', 'UL'
+  ];
+
+  let container: Element = doc.body;
+  for (const selector of containerSelectors) {
+    const candidate = doc.querySelector(selector);
+    if (candidate && (candidate.textContent || '').trim().length > minContainerLength) {
+      container = candidate;
+      break;
+    }
+  }
+
+  const isSkipped = (element: Element): boolean => {
+    // Page headers and footers are boilerplate, but an article's own header holds its title
+    if (element.tagName === 'HEADER' || element.tagName === 'FOOTER') {
+      const article = element.closest('article, main');
+      if (!article || !container.contains(article)) return true;
+    }
+    if (element.matches(boilerplateSelector)) return true;
+    if (root) return false;
+
+    const style = window.getComputedStyle(element);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const childNodesOf = (element: Element): Node[] => {
+    const nodes = element.shadowRoot ? Array.from(element.shadowRoot.childNodes) : [];
+    return nodes.concat(Array.from(element.childNodes));
+  };
+
+  const headingLevel = (element: Element): number => {
+    const match = element.tagName.match(/^H([1-6])$/);
+    if (match) return Number(match[1]);
+    if (element.getAttribute('role') === 'heading') {
+      return Math.min(Math.max(Number(element.getAttribute('aria-level')) || 2, 1), 6);
+    }
+    return 0;
+  };
+
+  // Text of an element with collapsed whitespace, one line per block and line break
+  const inlineText = (element: Element, skipLists = false): string => {
+    let text = '';
+    const visit = (node: Node) => {
+      if (node.nodeType === TEXT_NODE) {
+        text += (node.textContent || '').replace(/\s+/g, ' ');
+        return;
+      }
+      if (node.nodeType !== ELEMENT_NODE) return;
+      const child = node as Element;
+      if (isSkipped(child)) return;
+      if (skipLists && (child.tagName === 'UL' || child.tagName === 'OL')) return;
+      if (child.tagName === 'BR') {
+        text += '\n';
+        return;
+      }
+      const isBlock = BLOCK_TAGS.indexOf(child.tagName) !== -1;
+      if (isBlock) text += '\n';
+      childNodesOf(child).forEach(visit);
+      if (isBlock) text += '\n';
+    };
+    childNodesOf(element).forEach(visit);
+
+    return text
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+  };
+
+  const renderList = (list: Element, depth: number): string => {
+    const indent = '  '.repeat(depth);
+    const ordered = list.tagName === 'OL';
+    let number = Number(list.getAttribute('start')) || 1;
+    const lines: string[] = [];
+
+    Array.from(list.children).forEach(item => {
+      if (item.tagName !== 'LI' || isSkipped(item)) return;
+
+      // Nested lists are rendered below their item, one level deeper
+      const nested = Array.from(item.querySelectorAll('ul, ol'))
+        .filter(child => child.parentElement?.closest('li') === item && !isSkipped(child))
+        .map(child => renderList(child, depth + 1))
+        .filter(Boolean);
+      const text = inlineText(item, true);
+
+      const marker = ordered ? `${number++}. ` : '- ';
+      if (text) {
+        lines.push(indent + marker + text.split('\n').join('\n' + indent + ' '.repeat(marker.length)));
+      }
+      nested.forEach(line => lines.push(line));
+    });
+
+    return lines.join('\n');
+  };
+
+  const renderTable = (table: Element): string => {
+    const rows: string[][] = [];
+    // Rows of nested tables belong to their own table
+    Array.from(table.querySelectorAll('tr')).forEach(row => {
+      if (row.closest('table') !== table || isSkipped(row)) return;
+      const cells: string[] = [];
+      Array.from(row.children).forEach(cell => {
+        if (cell.tagName !== 'TD' && cell.tagName !== 'TH') return;
+        const text = inlineText(cell).replace(/\n/g, ' ').replace(/\|/g, '\\|');
+        cells.push(text);
+        const colSpan = Number(cell.getAttribute('colspan')) || 1;
+        for (let span = 1; span < colSpan; span++) cells.push('');
+      });
+      if (cells.some(Boolean)) rows.push(cells);
+    });
+    if (!rows.length) return '';
+
+    let columns = 0;
+    rows.forEach(cells => { columns = Math.max(columns, cells.length); });
+    const toLine = (cells: string[]) => {
+      const padded = cells.slice();
+      while (padded.length < columns) padded.push('');
+      return `| ${padded.join(' | ')} |`;
+    };
+
+    // Markdown tables need a header row, the first row is the best guess even without <th>
+    const lines = [toLine(rows[0]), toLine(new Array(columns).fill('---'))];
+    rows.slice(1).forEach(cells => lines.push(toLine(cells)));
+    return lines.join('\n');
+  };
+
+  const blocks: string[] = [];
+  let paragraph = '';
+
+  const flush = () => {
+    const text = paragraph
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .join('\n');
+    if (text) blocks.push(text);
+    paragraph = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === TEXT_NODE) {
+      paragraph += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (isSkipped(element)) return;
+
+    const level = headingLevel(element);
+    const tag = element.tagName;
+
+    if (level) {
+      flush();
+      const text = inlineText(element).replace(/\n/g, ' ');
+      if (text) blocks.push(`${'#'.repeat(level)} ${text}`);
+    } else if (tag === 'UL' || tag === 'OL') {
+      flush();
+      const list = renderList(element, 0);
+      if (list) blocks.push(list);
+    } else if (tag === 'TABLE') {
+      flush();
+      const table = renderTable(element);
+      if (table) blocks.push(table);
+    } else if (tag === 'PRE') {
+      flush();
+      const text = (element.textContent || '').replace(/\s+$/, '');
+      if (text.trim()) blocks.push('```\n' + text + '\n```');
+    } else if (tag === 'BLOCKQUOTE') {
+      flush();
+      const text = inlineText(element);
+      if (text) blocks.push(text.split('\n').map(line => `> ${line}`).join('\n'));
+    } else if (tag === 'BR') {
+      paragraph += '\n';
+    } else if (tag === 'HR') {
+      flush();
+    } else if (BLOCK_TAGS.indexOf(tag) !== -1) {
+      flush();
+      childNodesOf(element).forEach(walk);
+      flush();
+    } else {
+      childNodesOf(element).forEach(walk);
+    }
+  };
+
+  walk(container);
+  flush();
+
+  return blocks.join('\n\n');
+};
+
+/**
+ * Extracts the policy on a rendered page as verbatim Markdown.
+ * Headings, lists and tables are kept; navigation, footers and consent banners are stripped.
+ */
+export const extractPageMarkdown = async (page: Page): Promise<string> => {
+  return await page.evaluate(renderPageMarkdown, {
+    boilerplateSelector: BOILERPLATE_SELECTOR,
+    containerSelectors: CONTAINER_SELECTORS,
+    minContainerLength: MIN_CONTAINER_LENGTH
+  });
+};
+
+/**
+ * Extracts the policy in a document parsed from static HTML as verbatim Markdown
+ */
+export const extractHtmlMarkdown = (document: Document): string => {
+  return renderPageMarkdown({
+    boilerplateSelector: BOILERPLATE_SELECTOR,
+    containerSelectors: CONTAINER_SELECTORS,
+    minContainerLength: MIN_CONTAINER_LENGTH
+  }, document);
+};
+
+/**
+ * Lists the Markdown headings of a document, outside of code blocks
+ */
+export const getDocumentOutline = (markdown: string): DocumentHeading[] => {
+  const outline: DocumentHeading[] = [];
+  let inCodeBlock = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith('```')) inCodeBlock = !inCodeBlock;
+    if (inCodeBlock) continue;
+
+    const match = line.match(/^(#{1,6}) (.+)$/);
+    if (match) outline.push({ level: match[1].length, text: match[2].trim() });
+  }
+
+  return outline;
+};
+
+/**
+ * Collects the sections whose heading matches a pattern, each up to the next heading of the same or a higher level
+ */
+const extractSections = (markdown: string, pattern: RegExp): string | null => {
+  const sections: string[] = [];
+  let current: string[] | null = null;
+  let currentLevel = 0;
+  let inCodeBlock = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith('```')) inCodeBlock = !inCodeBlock;
+    const heading = inCodeBlock ? null : line.match(/^(#{1,6}) (.+)$/);
+
+    if (heading && current && heading[1].length <= currentLevel) {
+      sections.push(current.join('\n').trim());
+      current = null;
+    }
+
+    if (heading && !current) {
+      const text = heading[2].toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      if (pattern.test(text)) {
+        current = [];
+        currentLevel = heading[1].length;
+      }
+    }
+
+    if (current) current.push(line);
+  }
+  if (current) sections.push(current.join('\n').trim());
+
+  const text = sections.filter(Boolean).join('\n\n');
+  return text || null;
+};
+
+/**
+ * Extracts the sections of a privacy policy that describe cookies and similar technologies, verbatim
+ */
+export const extractCookieSections = (markdown: string): string | null => {
+  return extractSections(markdown, COOKIE_HEADING_PATTERN);
+};
@@ -0,0 +1,228 @@
+import { decodeBody, fetchUrl, SCANNER_AGENT } from './httpService';
+
+const readNumber = (value: string | undefined, fallback: number, min: number): number => {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isFinite(parsed) ? Math.max(parsed, min) : fallback;
+};
+
+// Pages loaded from a host at the same time, across every scan of the server
+const HOST_CONCURRENCY = Math.floor(readNumber(process.env.SCAN_HOST_CONCURRENCY, 2, 1));
+
+// Average pause between two page loads from a host, each one jittered between half and one and a half times it
+const REQUEST_DELAY = readNumber(process.env.SCAN_REQUEST_DELAY_MS, 500, 0);
+
+// A Crawl-delay in robots.txt lengthens the pause, up to this many milliseconds
+const MAX_CRAWL_DELAY = 10000;
+
+const ROBOTS_TTL = 60 * 60 * 1000;
+
+// Sites the deployment is authorised to audit, whose robots.txt is not applied
+const OVERRIDE_DOMAINS = (process.env.ROBOTS_TXT_OVERRIDE_DOMAINS || '')
+  .split(',')
+  .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+  .filter(Boolean);
+
+// robots.txt groups are matched on the product token of the user agent, such as "compliancechecker"
+const ROBOTS_TOKEN = SCANNER_AGENT.split(/[\/\s]/)[0].toLowerCase();
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // of the rule's path, the longest matching rule wins
+}
+
+export interface RobotsTxt {
+  sitemaps: string[];
+  rules: RobotsRule[]; // of the groups addressing the scanner, or of the "*" group
+  crawlDelay: number | null; // milliseconds
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+interface HostQueue {
+  active: number;
+  nextStart: number;
+  waiting: (() => void)[];
+}
+
+const robotsCache = new Map<string, { expires: number; robots: Promise<RobotsTxt> }>();
+const hostQueues = new Map<string, HostQueue>();
+
+/**
+ * Compiles the path of an Allow or Disallow rule, where "*" matches any characters and a final "$" ends the URL
+ */
+const toRule = (allow: boolean, path: string): RobotsRule => {
+  const anchored = path.endsWith('$');
+  const source = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return { allow, pattern: new RegExp(`^${source}${anchored ? '$' : ''}`), length: path.length };
+};
+
+/**
+ * Parses a robots.txt file (RFC 9309), keeping the rules of the groups addressing the scanner by name,
+ * or those of the "*" group when none does
+ */
+export const parseRobotsTxt = (body: string): RobotsTxt => {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let group: RobotsGroup | null = null;
+  let inAgents = false;
+
+  body.split(/\r?\n/).forEach(line => {
+    const match = line.replace(/#.*$/, '').match(/^\s*([a-z-]+)\s*:\s*(.*?)\s*$/i);
+    if (!match) return;
+    const field = match[1].toLowerCase();
+    const value = match[2];
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      return;
+    }
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share the rules that follow them
+      if (!group || !inAgents) {
+        group = { agents: [], rules: [], crawlDelay: null };
+        groups.push(group);
+      }
+      group.agents.push(value.toLowerCase());
+      inAgents = true;
+      return;
+    }
+    inAgents = false;
+    if (!group) return;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      group.rules.push(toRule(field === 'allow', value));
+    } else if (field === 'crawl-delay' && Number.isFinite(Number(value))) {
+      group.crawlDelay = Number(value) * 1000;
+    }
+  });
+
+  const named = groups.filter(candidate => candidate.agents.includes(ROBOTS_TOKEN));
+  const applied = named.length > 0 ? named : groups.filter(candidate => candidate.agents.includes('*'));
+  const delays = applied.map(candidate => candidate.crawlDelay).filter((delay): delay is number => delay !== null);
+  return {
+    sitemaps,
+    rules: applied.flatMap(candidate => candidate.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null
+  };
+};
+
+/**
+ * Reads the robots.txt of an origin, cached for an hour.
+ * A missing or unreachable robots.txt allows everything: fetchUrl can't tell a 404 from a server error.
+ */
+export const getRobotsTxt = (origin: string): Promise<RobotsTxt> => {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expires > Date.now()) return cached.robots;
+
+  const robots = fetchUrl(`${origin}/robots.txt`, { timeout: 10000, maxContentLength: 512 * 1024 })
+    .then(response => parseRobotsTxt(response ? decodeBody(response) : ''));
+  robotsCache.set(origin, { expires: Date.now() + ROBOTS_TTL, robots });
+  return robots;
+};
+
+const isOverridden = (hostname: string): boolean => {
+  const host = hostname.toLowerCase();
+  return OVERRIDE_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+/**
+ * Whether the site's robots.txt lets the scanner load a URL. Sites the deployment is authorised to audit are
+ * always allowed, and so is robots.txt itself.
+ */
+export const isAllowedByRobots = async (url: string): Promise<boolean> => {
+  const { origin, hostname, pathname, search } = new URL(url);
+  if (isOverridden(hostname) || pathname === '/robots.txt') return true;
+
+  const { rules } = await getRobotsTxt(origin);
+  const path = `${pathname}${search}`;
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!rule.pattern.test(path)) continue;
+    // On a tie, the less restrictive rule applies
+    if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) best = rule;
+  }
+  return !best || best.allow;
+};
+
+/**
+ * Checks that a URL submitted for analysis may be scanned under its site's robots.txt, returning why it can't
+ */
+export const checkRobotsAccess = async (url: string): Promise<string | null> => {
+  if (await isAllowedByRobots(url)) return null;
+  return `the robots.txt of ${new URL(url).hostname} disallows it for ${ROBOTS_TOKEN}; ` +
+    'add the domain to ROBOTS_TXT_OVERRIDE_DOMAINS if you are authorised to audit it';
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const jitter = (delay: number): number => delay * (0.5 + Math.random());
+
+/**
+ * Waits for one of the host's slots, then for the pause since the previous page load from it
+ */
+const acquireHostSlot = async (host: string, delay: number): Promise<void> => {
+  let queue = hostQueues.get(host);
+  if (!queue) {
+    queue = { active: 0, nextStart: 0, waiting: [] };
+    hostQueues.set(host, queue);
+  }
+  if (queue.active < HOST_CONCURRENCY) {
+    queue.active++;
+  } else {
+    // The slot is handed over by the load finishing, without ever being counted free
+    const waitingQueue = queue;
+    await new Promise<void>(resolve => waitingQueue.waiting.push(resolve));
+  }
+
+  const now = Date.now();
+  const start = Math.max(now, queue.nextStart);
+  queue.nextStart = start + jitter(delay);
+  if (start > now) await sleep(start - now);
+};
+
+const releaseHostSlot = (host: string): void => {
+  const queue = hostQueues.get(host);
+  if (!queue) return;
+  const next = queue.waiting.shift();
+  if (next) {
+    next();
+  } else if (--queue.active === 0 && queue.nextStart <= Date.now()) {
+    hostQueues.delete(host);
+  }
+};
+
+/**
+ * Runs a page load once its host has a free slot and the jittered pause since the previous load is over.
+ * Slots are shared by every scan of the server, so that parallel scans of a site don't add up.
+ * A load must not wait for another throttled load of the same host, which may never get a slot.
+ */
+export const throttleHost = async <T>(url: string, load: () => Promise<T>): Promise<T> => {
+  const { origin, hostname } = new URL(url);
+  const robots = isOverridden(hostname) ? null : await getRobotsTxt(origin);
+  const delay = Math.max(REQUEST_DELAY, Math.min(robots?.crawlDelay ?? 0, MAX_CRAWL_DELAY));
+
+  await acquireHostSlot(hostname, delay);
+  try {
+    return await load();
+  } finally {
+    releaseHostSlot(hostname);
+  }
+};
+
+/**
+ * Loads a page politely: refused when robots.txt disallows it, throttled per host otherwise.
+ * Wraps each request on its own, such as a navigation or a download, rather than a whole fetcher call.
+ */
+export const loadPolitely = async <T>(url: string, load: () => Promise<T>): Promise<T> => {
+  if (!(await isAllowedByRobots(url))) {
+    throw new Error(`The robots.txt of ${new URL(url).hostname} disallows ${url}`);
+  }
+  return throttleHost(url, load);
+};
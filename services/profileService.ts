@@ -0,0 +1,156 @@
+import { devices } from 'playwright';
+import type { BrowserContextOptions } from 'playwright';
+import scanProfiles from '@/lib/scan-profiles.json';
+import { ConsentScanResult, ConsentBannerAnalysis, DeviceType, PreConsentTracking, ProfileComparison, ProfileScanSummary, ScanProfile } from '@/types';
+import type { BrowserSession } from './browserPoolService';
+import { runConsentScan } from './consentScanService';
+import { getDistinctHosts } from './trackingService';
+import { SCANNER_AGENT } from './httpService';
+
+// Profiles compared in a single scan, each one loads the site three more times
+export const MAX_COMPARED_PROFILES = 4;
+
+// Chromium-based devices, so that the emulated browser matches the one actually running
+const DEVICES: Record<DeviceType, (typeof devices)[string]> = {
+  desktop: devices['Desktop Chrome'],
+  mobile: devices['Pixel 7']
+};
+
+export const SCAN_PROFILES: ScanProfile[] = Object.entries(
+  scanProfiles as Record<string, Omit<ScanProfile, 'id' | 'viewport'>>
+).map(([id, profile]) => ({
+  id,
+  ...profile,
+  viewport: DEVICES[profile.device].viewport
+}));
+
+// EU visitors are the ones the checked regulations protect
+export const DEFAULT_PROFILE_ID = SCAN_PROFILES.some(profile => profile.id === process.env.SCAN_PROFILE)
+  ? process.env.SCAN_PROFILE as string
+  : 'eu-desktop';
+
+export const getScanProfile = (id: string = DEFAULT_PROFILE_ID): ScanProfile | null => {
+  return SCAN_PROFILES.find(profile => profile.id === id) || null;
+};
+
+/**
+ * Checks the profiles requested for a scan, returning why they can't be used
+ */
+export const checkScanProfiles = (ids: unknown): string | null => {
+  if (ids === undefined) return null;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+    return 'profiles must be a non-empty list of profile IDs';
+  }
+  if (ids.length > MAX_COMPARED_PROFILES) return `at most ${MAX_COMPARED_PROFILES} profiles can be compared`;
+  if (new Set(ids).size !== ids.length) return 'profiles must not repeat';
+  const unknown = ids.find(id => !getScanProfile(id));
+  return unknown ? `unknown profile ${unknown}, expected one of: ${SCAN_PROFILES.map(profile => profile.id).join(', ')}` : null;
+};
+
+/**
+ * The browser context options emulating a profile's visitor. The device's user agent is kept for sites to
+ * render the same page as for that browser, the scanner's own name is appended so that they can tell it apart.
+ */
+export const getProfileContextOptions = (profile: ScanProfile): BrowserContextOptions => {
+  const { userAgent, viewport, deviceScaleFactor, isMobile, hasTouch } = DEVICES[profile.device];
+  return {
+    userAgent: `${userAgent} ${SCANNER_AGENT}`,
+    viewport,
+    deviceScaleFactor,
+    isMobile,
+    hasTouch,
+    locale: profile.locale,
+    timezoneId: profile.timezoneId,
+    geolocation: profile.geolocation,
+    permissions: ['geolocation'],
+    extraHTTPHeaders: { 'Accept-Language': profile.acceptLanguage }
+  };
+};
+
+/**
+ * Wraps a browser session so that every context it opens emulates the profile's visitor.
+ * Options passed for a given context take precedence.
+ */
+export const applyScanProfile = (session: BrowserSession, profile: ScanProfile): BrowserSession => ({
+  newContext: options => session.newContext({ ...getProfileContextOptions(profile), ...options })
+});
+
+// The parts of a consent scan the profiles are compared on
+interface ProfileScanResults {
+  consentScan: ConsentScanResult;
+  preConsentTracking: PreConsentTracking;
+  consentBanner: ConsentBannerAnalysis | null;
+}
+
+/**
+ * Summarizes what a consent scan saw under a profile, for the comparison between profiles
+ */
+const summarizeProfileScan = (profile: ScanProfile, scan: ProfileScanResults | null, error?: string): ProfileScanSummary => {
+  const [, reject, accept] = scan?.consentScan.states || [];
+  return {
+    profileId: profile.id,
+    profileName: profile.name,
+    bannerFound: !!scan?.consentBanner,
+    cmp: scan?.consentBanner?.details.cmp ?? null,
+    acceptFound: !!accept?.buttonFound,
+    rejectFound: !!reject?.buttonFound,
+    cookiesBeforeConsent: scan?.preConsentTracking.cookies.filter(cookie => cookie.tracking).map(cookie => cookie.name) || [],
+    trackingHostsBeforeConsent: scan ? getDistinctHosts(scan.preConsentTracking.thirdPartyRequests, true) : [],
+    trackingHostsAfterReject: scan?.consentScan.trackingHostsAfterReject || [],
+    compliant: !!scan && scan.preConsentTracking.compliant && scan.consentScan.compliant,
+    error
+  };
+};
+
+const describeList = (items: string[]): string => items.length ? items.join(', ') : 'none';
+
+/**
+ * Lists how the site treated the other profiles differently from the scan's own profile
+ */
+const compareProfileScans = (summaries: ProfileScanSummary[]): ProfileComparison => {
+  const [base, ...others] = summaries;
+  const differences: string[] = [];
+
+  if (base.error) return { profiles: summaries, differences };
+  others.filter(other => !other.error).forEach(other => {
+    if (other.bannerFound !== base.bannerFound) {
+      differences.push(`A consent banner was ${base.bannerFound ? '' : 'not '}shown to ${base.profileName} but ${other.bannerFound ? 'was' : 'not'} to ${other.profileName}`);
+    }
+    if (other.rejectFound !== base.rejectFound) {
+      differences.push(`A "reject all" button was ${base.rejectFound ? '' : 'not '}found for ${base.profileName} but ${other.rejectFound ? 'was' : 'not'} for ${other.profileName}`);
+    }
+    const onlyBase = base.trackingHostsBeforeConsent.filter(host => !other.trackingHostsBeforeConsent.includes(host));
+    const onlyOther = other.trackingHostsBeforeConsent.filter(host => !base.trackingHostsBeforeConsent.includes(host));
+    if (onlyBase.length > 0 || onlyOther.length > 0) {
+      differences.push(`Trackers before consent only for ${base.profileName}: ${describeList(onlyBase)}; only for ${other.profileName}: ${describeList(onlyOther)}`);
+    }
+    if (other.compliant !== base.compliant) {
+      differences.push(`The consent checks ${base.compliant ? 'pass' : 'fail'} for ${base.profileName} but ${other.compliant ? 'pass' : 'fail'} for ${other.profileName}`);
+    }
+  });
+
+  return { profiles: summaries, differences };
+};
+
+/**
+ * Runs the consent scan again under each of the other profiles, one after the other, and compares them with the
+ * scan's own. Every profile sets the same context options, so applying one over the session's profile replaces it.
+ */
+export const runProfileComparison = async (
+  session: BrowserSession,
+  url: string,
+  profile: ScanProfile,
+  scan: ProfileScanResults | null,
+  others: ScanProfile[]
+): Promise<ProfileComparison> => {
+  const summaries = [summarizeProfileScan(profile, scan, scan ? undefined : 'The consent scan failed')];
+  for (const other of others) {
+    try {
+      summaries.push(summarizeProfileScan(other, await runConsentScan(applyScanProfile(session, other), url)));
+    } catch (error) {
+      console.error(`Error scanning ${url} with the ${other.id} profile:`, error);
+      summaries.push(summarizeProfileScan(other, null, error instanceof Error ? error.message : String(error)));
+    }
+  }
+  return compareProfileScans(summaries);
+};
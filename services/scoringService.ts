@@ -0,0 +1,17 @@
+import { ComplianceIssue } from '@/types';
+
+// Points taken off a section's score per issue
+const SEVERITY_PENALTIES: Record<ComplianceIssue['severity'], number> = {
+  high: 30,
+  medium: 15,
+  low: 5
+};
+
+/**
+ * Scores a section from its issues: 100 minus their penalties, compliant at 80 or more without any high severity issue
+ */
+export const scoreIssues = (issues: ComplianceIssue[]): { score: number; compliant: boolean } => {
+  const penalty = issues.reduce((total, issue) => total + SEVERITY_PENALTIES[issue.severity], 0);
+  const score = Math.max(100 - penalty, 0);
+  return { score, compliant: score >= 80 && !issues.some(issue => issue.severity === 'high') };
+};
@@ -1,481 +1,477 @@
-import { chromium } from 'playwright';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import axios from 'axios';
 import * as dotenv from 'dotenv';
-import { existsSync } from 'fs';
-import { join } from 'path';
-import { homedir } from 'os';
 import { callOpenAIWithRetry, OpenAIResponse, isOpenAIConfigured } from './openaiService';
+import { runConsentScan } from './consentScanService';
+import { BrowserSession, isBrowserAvailable, withBrowserSession } from './browserPoolService';
+import { hasRequiredDocuments, rankComplianceLinks, rankFormPageLinks, rankLegalHubLinks, ComplianceLinks } from './linkDiscoveryService';
+import { DOCUMENT_TYPES } from './documentTypeService';
+import { discoverPolicyUrls } from './sitemapDiscoveryService';
+import { extractCookieSections, getDocumentOutline } from './policyExtractionService';
+import { LoadedDocument, PageFetcher, PageLinks } from './fetcherService';
+import { createPlaywrightFetcher } from './playwrightFetcherService';
+import { createStaticFetcher } from './staticFetcherService';
+import { PageForms } from './formService';
+import { SecurityEvidence } from './securityService';
+import { AccessibilityEvidence } from './accessibilityService';
+import { isThirdPartyHost } from './trackingService';
+import { captureDocumentEvidence, createEvidenceRecorder, EvidenceRecorder } from './evidenceService';
+import { buildCrawlReport, crawlSite, getCrawledForms, getCrawlSettings } from './crawlService';
+import { applyScanProfile, getScanProfile, runProfileComparison } from './profileService';
+import { getSkippedLogin, LoginSession, runLoginScript } from './loginService';
+import {
+  ConsentBannerAnalysis, ConsentScanResult, CrawlReport, CrawlSettings, DiscoveryMethod, DocumentFormat, DocumentHeading,
+  DocumentType, EvidenceBundle, ExtractionMethod, FetcherName, LoginReport, LoginStep, PreConsentTracking, ProfileComparison, ScanProfile,
+  StorageAccessReport, TcfAnalysis, VendorInventory
+} from '@/types';
 
 // Load environment variables
 dotenv.config();
 
-const execAsync = promisify(exec);
-// Flag to track whether we've verified Playwright is installed
-let isPlaywrightVerified = false;
-
-// Check if Playwright browsers are already installed
-const isPlaywrightInstalled = (): boolean => {
-  // Common paths for Playwright browser installations
-  const homeDir = homedir();
-  const possiblePaths = [
-    join(homeDir, '.cache', 'ms-playwright'),
-    join(homeDir, 'Library', 'Caches', 'ms-playwright'),
-    join(process.cwd(), 'node_modules', 'playwright-core', '.local-browsers')
-  ];
-  
-  for (const path of possiblePaths) {
-    if (existsSync(path)) {
-      return true;
-    }
-  }
-  return false;
-};
+// 'auto' renders pages in Chromium and falls back to static HTML, which is tried first with 'static'
+export type FetcherPreference = FetcherName | 'auto';
 
-// Launch browser with improved error handling and installation check
-const launchBrowser = async () => {
-  try {
-    // Only check installation once per session
-    if (!isPlaywrightVerified) {
-      if (!isPlaywrightInstalled()) {
-        console.log('Playwright browsers not found, installing... (one-time setup)');
-        await execAsync('npx playwright install chromium --with-deps');
-        console.log('Playwright installed successfully');
-      } else {
-        console.log('Playwright browsers already installed');
-      }
-      isPlaywrightVerified = true;
-    }
-    
-    // Use executable path to avoid reinstallation attempts and improve startup time
-    return await chromium.launch({ 
-      headless: true,
-      timeout: 30000,
-      args: ['--disable-gpu', '--disable-dev-shm-usage', '--disable-setuid-sandbox', '--no-sandbox']
-    });
-  } catch (error) {
-    console.error('Error launching browser:', error);
-    throw new Error(`Failed to launch browser: ${error instanceof Error ? error.message : String(error)}`);
-  }
-};
+export const FETCHER_PREFERENCES: FetcherPreference[] = ['auto', 'playwright', 'static'];
+
+const DEFAULT_FETCHER: FetcherPreference = FETCHER_PREFERENCES.includes(process.env.SCRAPER_FETCHER as FetcherPreference)
+  ? process.env.SCRAPER_FETCHER as FetcherPreference
+  : 'auto';
+
+// Pages whose forms are audited: the homepage and the best contact, sign-up or newsletter pages
+const MAX_FORM_PAGES = 4;
+
+interface DocumentSource {
+  url: string;
+  discoveryMethod: DiscoveryMethod;
+  format?: DocumentFormat;
+  extractionMethod?: ExtractionMethod;
+  outline?: DocumentHeading[];
+}
+
+interface ScrapedDocument {
+  content: string;
+  format?: DocumentFormat;
+  extractionMethod?: ExtractionMethod;
+  outline?: DocumentHeading[];
+}
 
 interface ScrapingResult {
-  termsOfService: string | null;
-  privacyPolicy: string | null;
-  cookiePolicy: string | null;
+  documents: Partial<Record<DocumentType, string>>;
+  documentSources: Partial<Record<DocumentType, DocumentSource>>;
+  fetcher: FetcherName;
+  preConsentTracking: PreConsentTracking | null;
+  consentScan: ConsentScanResult | null;
+  consentBanner: ConsentBannerAnalysis | null;
+  vendorInventory: VendorInventory | null;
+  storageAccess: StorageAccessReport | null;
+  tcf: TcfAnalysis | null;
+  forms: PageForms[] | null;
+  security: SecurityEvidence | null;
+  accessibility: AccessibilityEvidence | null;
+  evidence: EvidenceBundle | null;
+  crawl: CrawlReport | null;
+  profile: ScanProfile;
+  profileComparison: ProfileComparison | null;
+  login: LoginReport | null;
 }
 
-interface Link {
-  text: string;
-  href: string;
-  isFooter?: boolean;
-  isHeader?: boolean;
+export interface ScrapeOptions {
+  // Saves screenshots, HAR files and the raw HTML of the compliance documents as an evidence bundle
+  evidence?: boolean;
+  // Overrides the environment's crawl settings
+  crawl?: Partial<CrawlSettings>;
+  // The visitor emulated, then those whose consent scans are compared with it; the default profile otherwise
+  profiles?: ScanProfile[];
+  // Steps logging into the site before the crawl, which then covers the pages behind the login
+  login?: LoginStep[];
 }
 
-interface ComplianceLinks {
-  termsLink: Link | null;
-  privacyLink: Link | null;
-  cookieLink: Link | null;
+// What a scan carries from one fetcher attempt to the next
+interface ScanOptions {
+  evidence: EvidenceRecorder | null;
+  crawl: CrawlSettings;
+  profile: ScanProfile;
+  compareWith: ScanProfile[];
+  login: LoginStep[] | null;
 }
 
 /**
- * Uses Playwright to scrape a website for compliance-related content
+ * Scrapes a website for compliance-related content, rendering it with Playwright or downloading
+ * its static HTML. Each fetcher is the other's fallback, and the static one is used alone
+ * when no browser is available. Consent checks need the browser and are skipped without it.
  */
-export const scrapeWebsite = async (url: string): Promise<ScrapingResult> => {
-  let browser;
+export const scrapeWebsite = async (
+  url: string,
+  preference: FetcherPreference = DEFAULT_FETCHER,
+  options: ScrapeOptions = {}
+): Promise<ScrapingResult> => {
+  const browserAvailable = isBrowserAvailable();
+  const [profile, ...compareWith] = options.profiles?.length ? options.profiles : [getScanProfile()!];
+  const scan: ScanOptions = {
+    evidence: options.evidence ? await createEvidenceRecorder() : null,
+    crawl: getCrawlSettings(options.crawl),
+    profile,
+    compareWith,
+    login: options.login?.length ? options.login : null
+  };
   try {
-    browser = await launchBrowser();
-  } catch (error: unknown) {
-    console.error('Error during browser launch:', error);
-    throw new Error(`
-Failed to launch browser for scraping. Please try again or run:
-npx playwright install chromium --with-deps
-Error details: ${(error as Error).message || String(error)}`);
+    return await scrapeWithPreference(url, preference, scan, browserAvailable);
+  } catch (error) {
+    // A failed scan leaves no partial evidence bundle behind
+    await scan.evidence?.discard().catch(err => console.error('Error discarding the evidence bundle:', err));
+    throw error;
+  }
+};
+
+/**
+ * Runs the scan with the preferred fetcher, falling back on the other one
+ */
+const scrapeWithPreference = async (
+  url: string,
+  preference: FetcherPreference,
+  scan: ScanOptions,
+  browserAvailable: boolean
+): Promise<ScrapingResult> => {
+  if (preference === 'playwright' || (preference === 'auto' && browserAvailable)) {
+    let started = false;
+    try {
+      // Scans share the pooled browsers, each in its own contexts
+      return await withBrowserSession(browserSession => {
+        started = true;
+        return scrapeInBrowser(browserSession, url, scan, preference === 'auto' ? [createStaticFetcher(scan.profile)] : []);
+      });
+    } catch (error) {
+      // Only a missing browser is worth a second attempt, not a failed scan
+      if (started || preference === 'playwright') throw error;
+      console.error('No browser available, scraping static HTML instead:', error);
+    }
+  }
+
+  try {
+    return await scrapeWithFetchers(url, [createStaticFetcher(scan.profile)], null, scan, scan.login && getSkippedLogin(scan.login));
+  } catch (error) {
+    if (preference !== 'static' || !browserAvailable) throw error;
+    console.error('Static scraping failed, rendering the site in a browser instead:', error);
+    return await withBrowserSession(browserSession => scrapeInBrowser(browserSession, url, scan));
   }
+};
+
+/**
+ * Scrapes a website in the browser session, logging in first when the scan has a login script.
+ * Only the crawl visits the site as the logged-in visitor, the consent checks observe a first visit.
+ */
+const scrapeInBrowser = async (
+  browserSession: BrowserSession,
+  url: string,
+  scan: ScanOptions,
+  fallbacks: PageFetcher[] = []
+): Promise<ScrapingResult> => {
+  // Every context of the scan emulates the profile's visitor
+  const session = applyScanProfile(browserSession, scan.profile);
+  const login = scan.login ? await runLoginScript(session, url, scan.login) : null;
+  const fetcher = createPlaywrightFetcher(session, login?.storageState ? { storageState: login.storageState, ignoreHTTPSErrors: false } : undefined);
+  return scrapeWithFetchers(url, [fetcher].concat(fallbacks), session, scan, login);
+};
+
+/**
+ * Scrapes a website with the first fetcher that can read its homepage, the others serving as
+ * fallbacks for documents it fails to load. The consent scan only runs with a browser session.
+ * Every page the fetchers load follows the site's robots.txt and the per-host limits.
+ */
+const scrapeWithFetchers = async (
+  url: string,
+  fetchers: PageFetcher[],
+  session: BrowserSession | null,
+  { evidence, crawl, profile, compareWith }: ScanOptions,
+  login: LoginSession | null
+): Promise<ScrapingResult> => {
+  // Observe the site untouched, after "reject all" and after "accept all", each in its own context.
+  // This runs alongside document discovery, which never interacts with the consent banner.
+  const consentScanPromise = session
+    ? runConsentScan(session, url, evidence).catch(error => {
+      console.error('Error during consent scan:', error);
+      return null;
+    })
+    : Promise.resolve(null);
+  // Other profiles are scanned once the scan's own is done, not to load the site in too many contexts at once
+  const comparisonPromise = session && compareWith.length > 0
+    ? consentScanPromise.then(results => runProfileComparison(session, url, profile, results, compareWith))
+    : Promise.resolve(null);
   
   try {
-    const context = await browser.newContext();
-    const page = await context.newPage();
+    // Rank every link of the homepage, header and footer included
+    let homepage: PageLinks | null = null;
+    let lastError: unknown = null;
+    let orderedFetchers: PageFetcher[] = [];
+    for (const candidate of fetchers) {
+      try {
+        homepage = await candidate.getPageLinks(url, 60000);
+        orderedFetchers = [candidate].concat(fetchers.filter(other => other !== candidate));
+        break;
+      } catch (error) {
+        console.error(`The ${candidate.name} fetcher could not load ${url}:`, error);
+        lastError = error;
+      }
+    }
+    if (!homepage) throw lastError;
+    const fetcher = orderedFetchers[0];
+    console.log(`Scraping ${url} with the ${fetcher.name} fetcher`);
     
-    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+    // Forms are collected alongside the documents, and so is the rest of the site
+    const formsPromise = collectSiteForms(homepage, orderedFetchers);
+    const crawlPromise = crawlSite(homepage, orderedFetchers, crawl, login);
     
-    // Store links we've found and secondary URLs to explore if needed
-    const mainLinks = await findComplianceLinks(page);
-    let footerLinks: ComplianceLinks = {
-      termsLink: null,
-      privacyLink: null,
-      cookieLink: null
-    };
-    let menuLinks: ComplianceLinks = {
-      termsLink: null,
-      privacyLink: null,
-      cookieLink: null
-    };
+    const mainLinks = findComplianceLinks(homepage);
+    let links: ComplianceLinks = mainLinks;
     
-    // If we didn't find all the compliance links on the main page, check the footer
-    if (!mainLinks.termsLink || !mainLinks.privacyLink || !mainLinks.cookieLink) {
-      // Try to find and visit the footer links
-      footerLinks = await findFooterLinks(page);
+    // If required documents are missing from the homepage, check common pages like "about", "legal", etc.
+    if (!hasRequiredDocuments(links)) {
+      // Prioritize main page links, then menu
+      links = { ...await findMenuLinks(fetcher, homepage, links), ...links };
     }
     
-    // If still missing links, check common pages like "about", "legal", etc.
-    if ((!mainLinks.termsLink && !footerLinks.termsLink) || 
-        (!mainLinks.privacyLink && !footerLinks.privacyLink) || 
-        (!mainLinks.cookieLink && !footerLinks.cookieLink)) {
-      menuLinks = await findMenuLinks(page);
+    // Lazily rendered footers never show up as anchors: fall back to sitemaps and well-known paths
+    if (!hasRequiredDocuments(links)) {
+      links = await discoverPolicyUrls(url, links);
     }
     
-    // Consolidate all links (prioritize main page links, then footer, then menu)
-    const termsLink = mainLinks.termsLink || footerLinks.termsLink || menuLinks.termsLink;
-    const privacyLink = mainLinks.privacyLink || footerLinks.privacyLink || menuLinks.privacyLink;
-    const cookieLink = mainLinks.cookieLink || footerLinks.cookieLink || menuLinks.cookieLink;
+    DOCUMENT_TYPES.forEach(type => {
+      console.log(`Found ${type.title} link:`, links[type.key]?.href, links[type.key]?.discoveryMethod);
+    });
     
-    console.log('Found Terms link:', termsLink?.href);
-    console.log('Found Privacy link:', privacyLink?.href);
-    console.log('Found Cookie link:', cookieLink?.href);
+    // Documents sharing a page, such as an Impressum within the terms, are only downloaded once
+    const loads = new Map<string, Promise<LoadedDocument>>();
+    const load = (documentUrl: string): Promise<LoadedDocument> => {
+      let loading = loads.get(documentUrl);
+      if (!loading) {
+        loading = loadDocument(documentUrl, orderedFetchers);
+        loads.set(documentUrl, loading);
+      }
+      return loading;
+    };
     
-    // Scrape content from identified pages using OpenAI
-    // Use gpt-3.5-turbo for all extractions to avoid rate limits
-    let termsOfService = null;
-    let privacyPolicy = null;
-    let cookiePolicy = null;
+    // Extract each document verbatim, the LLM is only a fallback for pages without usable structure
+    const documents: Partial<Record<DocumentType, ScrapedDocument>> = {};
+    const privacyLink = links.privacyPolicy;
+    const cookieLink = links.cookiePolicy;
+    const combinedPolicies = !!privacyLink && !!cookieLink && privacyLink.href === cookieLink.href;
     
     // Process documents in parallel for faster analysis
-    const scrapePromises = [];
-    
-    if (termsLink) {
-      scrapePromises.push(
-        scrapePageWithOpenAI(termsLink.href, context, 'terms of service')
-          .then(result => { termsOfService = result; })
-      );
-    }
-    
-    // Handle privacy and cookie policies, which might be combined
-    if (privacyLink && cookieLink && privacyLink.href === cookieLink.href) {
-      // Same URL for both - extract both from same page
-      console.log('Privacy and cookie policies appear to be on the same page');
-      scrapePromises.push(
-        scrapePageForMultiplePolicies(privacyLink.href, context)
-          .then(results => {
-            privacyPolicy = results.privacyPolicy;
-            cookiePolicy = results.cookiePolicy;
-          })
-      );
-    } else {
-      // Different URLs or only one exists
-      if (privacyLink) {
-        scrapePromises.push(
-          scrapePageWithOpenAI(privacyLink.href, context, 'privacy policy')
-            .then(result => { privacyPolicy = result; })
-        );
-      }
+    const scrapePromises = DOCUMENT_TYPES.map(async type => {
+      const link = links[type.key];
+      if (!link) return;
       
-      if (cookieLink) {
-        scrapePromises.push(
-          scrapePageWithOpenAI(cookieLink.href, context, 'cookie policy')
-            .then(result => { cookiePolicy = result; })
-        );
+      // Privacy and cookie policies on the same page are split from a single extraction
+      if (combinedPolicies && type.key === 'cookiePolicy') return;
+      if (combinedPolicies && type.key === 'privacyPolicy') {
+        console.log('Privacy and cookie policies appear to be on the same page');
+        const results = await scrapePageForMultiplePolicies(link.href, load);
+        documents.privacyPolicy = results.privacyPolicy;
+        documents.cookiePolicy = results.cookiePolicy ?? undefined;
+        return;
       }
-    }
+      
+      documents[type.key] = await scrapePolicyPage(link.href, load, type.name);
+    });
     
     // Wait for all scraping tasks to complete
     await Promise.all(scrapePromises);
     
     // If no dedicated cookie policy link is found, try to extract cookie-related content from privacy policy
-    if (!cookiePolicy && privacyPolicy) {
+    if (!documents.cookiePolicy && documents.privacyPolicy) {
       console.log('No dedicated cookie policy found, searching in privacy policy...');
-      cookiePolicy = await extractCookiePolicyFromPrivacyPolicy(privacyPolicy);
+      documents.cookiePolicy = await extractCookiePolicyFromPrivacyPolicy(documents.privacyPolicy) ?? undefined;
+    }
+    
+    const crawledPages = await crawlPromise;
+    // Pages whose forms were already read are not audited twice
+    const siteForms = await formsPromise;
+    const forms = siteForms.concat(getCrawledForms(crawledPages).filter(page => !siteForms.some(known => known.url === page.url)));
+    const consentScanResults = await consentScanPromise;
+    const profileComparison = await comparisonPromise;
+    
+    const contents: Partial<Record<DocumentType, string>> = {};
+    const documentSources: Partial<Record<DocumentType, DocumentSource>> = {};
+    DOCUMENT_TYPES.forEach(type => {
+      const document = documents[type.key];
+      // A cookie policy extracted from the privacy policy comes from the privacy policy's page
+      const link = type.key === 'cookiePolicy' ? cookieLink || privacyLink : links[type.key];
+      if (!document) return;
+      
+      contents[type.key] = document.content;
+      if (link) {
+        documentSources[type.key] = {
+          url: link.href,
+          discoveryMethod: link.discoveryMethod ?? 'homepage-link',
+          format: document.format,
+          extractionMethod: document.extractionMethod,
+          outline: document.outline
+        };
+      }
+    });
+    
+    // Each document page is saved once, under the first document type found on it
+    let evidenceBundle: EvidenceBundle | null = null;
+    if (evidence) {
+      const evidenceDocuments = DOCUMENT_TYPES
+        .filter(type => documentSources[type.key])
+        .map(type => ({ type: type.key, title: type.title, url: documentSources[type.key]!.url }))
+        .filter((document, index, all) => all.findIndex(other => other.url === document.url) === index);
+      await captureDocumentEvidence(evidence, session, evidenceDocuments).catch(error => {
+        console.error('Error capturing the evidence of the documents:', error);
+      });
+      evidenceBundle = await evidence.finish();
     }
     
     return {
-      termsOfService,
-      privacyPolicy,
-      cookiePolicy
+      documents: contents,
+      documentSources,
+      fetcher: fetcher.name,
+      preConsentTracking: consentScanResults?.preConsentTracking ?? null,
+      consentScan: consentScanResults?.consentScan ?? null,
+      consentBanner: consentScanResults?.consentBanner ?? null,
+      vendorInventory: consentScanResults?.vendorInventory ?? null,
+      storageAccess: consentScanResults?.storageAccess ?? null,
+      tcf: consentScanResults?.tcf ?? null,
+      forms,
+      security: consentScanResults?.security ?? null,
+      accessibility: consentScanResults?.accessibility ?? null,
+      evidence: evidenceBundle,
+      crawl: crawledPages.length > 0 ? buildCrawlReport(crawledPages, crawl) : null,
+      profile,
+      profileComparison,
+      login: login?.report ?? null
     };
   } catch (error: unknown) {
     console.error('Error during scraping:', error);
+    // The session's contexts are closed once the scan returns, the consent scans must not outlive it
+    await consentScanPromise;
+    await comparisonPromise;
     throw new Error(`Failed to scrape website ${url}: ${error instanceof Error ? error.message : String(error)}`);
-  } finally {
-    await browser?.close().catch(err => console.error('Error closing browser:', err));
   }
 };
 
 /**
- * Find compliance links on the main page
- */
-const findComplianceLinks = async (page: any): Promise<ComplianceLinks> => {
-  const links = await page.evaluate(() => {
-    return Array.from(document.querySelectorAll('a')).map(a => ({
-      text: a.textContent?.trim().toLowerCase() || '',
-      href: a.href,
-      isFooter: a.closest('footer') !== null,
-      isHeader: a.closest('header') !== null
-    }));
-  });
-  
-  // English and French terms for compliance documents
-  const termsLink = links.find((link: Link) => 
-    link.text.includes('terms') || 
-    link.text.includes('conditions') || 
-    link.text.includes('tos') ||
-    link.text.includes('mentions légales') ||
-    link.text.includes('conditions générales') ||
-    link.text.includes('cgv') ||
-    link.text.includes('cgu') ||
-    link.href.includes('terms') ||
-    link.href.includes('conditions') ||
-    link.href.includes('mentions-legales') ||
-    link.href.includes('legal')
-  ) || null;
-  
-  const privacyLink = links.find((link: Link) => 
-    link.text.includes('privacy') || 
-    link.text.includes('vie privée') ||
-    link.text.includes('données personnelles') ||
-    link.text.includes('confidentialité') ||
-    link.href.includes('privacy') ||
-    link.href.includes('confidentialite') ||
-    link.href.includes('donnees-personnelles') ||
-    link.href.includes('rgpd')
-  ) || null;
-  
-  const cookieLink = links.find((link: Link) => 
-    link.text.includes('cookie') || 
-    link.text.includes('cookies') || 
-    link.href.includes('cookie') ||
-    link.href.includes('traceurs')
-  ) || null;
-  
-  return { termsLink, privacyLink, cookieLink };
-};
-
-/**
- * Find and check links in the footer which often contains compliance documents
+ * Find compliance links among the links of a page
  */
-const findFooterLinks = async (page: any): Promise<ComplianceLinks> => {
-  const footerLinks = await page.evaluate(() => {
-    // Try to find the footer element with different strategies
-    const footer = document.querySelector('footer') || 
-                  document.querySelector('.footer') ||
-                  document.querySelector('#footer') ||
-                  document.querySelector('[role="contentinfo"]') ||
-                  document.querySelector('.bottom') ||
-                  document.querySelector('.site-info');
-                  
-    if (!footer) return [];
-    
-    return Array.from(footer.querySelectorAll('a')).map(a => ({
-      text: a.textContent?.trim().toLowerCase() || '',
-      href: a.href
-    }));
-  });
-  
-  const termsLink = footerLinks.find((link: Link) => 
-    link.text.includes('terms') || 
-    link.text.includes('conditions') || 
-    link.text.includes('mentions légales') ||
-    link.text.includes('cgu') ||
-    link.href.includes('legal') ||
-    link.href.includes('mentions')
-  ) || null;
-  
-  const privacyLink = footerLinks.find((link: Link) => 
-    link.text.includes('privacy') || 
-    link.text.includes('confidentialité') ||
-    link.text.includes('données') ||
-    link.href.includes('privacy') ||
-    link.href.includes('donnees')
-  ) || null;
-  
-  const cookieLink = footerLinks.find((link: Link) => 
-    link.text.includes('cookie') || 
-    link.href.includes('cookie')
-  ) || null;
-  
-  return { termsLink, privacyLink, cookieLink };
+const findComplianceLinks = (page: PageLinks, discoveryMethod: DiscoveryMethod = 'homepage-link'): ComplianceLinks => {
+  return rankComplianceLinks(page.links.map(link => ({ ...link, discoveryMethod })), page.url);
 };
 
 /**
  * Check common sections like About or Legal pages that might contain or link to compliance docs
  */
-const findMenuLinks = async (page: any): Promise<ComplianceLinks> => {
+const findMenuLinks = async (fetcher: PageFetcher, homepage: PageLinks, known: ComplianceLinks): Promise<ComplianceLinks> => {
   // First, try to find "About", "Legal", or similar pages
-  const menuLinks = await page.evaluate(() => {
-    return Array.from(document.querySelectorAll('a')).filter(a => {
-      const text = a.textContent?.trim().toLowerCase() || '';
-      return text.includes('about') || 
-             text.includes('à propos') || 
-             text.includes('legal') || 
-             text.includes('légal') ||
-             text.includes('juridique') ||
-             text.includes('aide') ||
-             text.includes('help');
-    }).map(a => ({
-      text: a.textContent?.trim().toLowerCase() || '',
-      href: a.href
-    }));
-  });
+  const menuLinks = rankLegalHubLinks(homepage.links, homepage.url);
   
   // We'll return these if we find them in a second phase
-  let termsLink: Link | null = null;
-  let privacyLink: Link | null = null;
-  let cookieLink: Link | null = null;
+  let found: ComplianceLinks = {};
   
   // For each potential navigation page, visit it and look for compliance links
   for (const link of menuLinks.slice(0, 3)) { // Limit to first 3 to avoid too many requests
     try {
-      const subPage = await page.context().newPage();
-      await subPage.goto(link.href, { waitUntil: 'domcontentloaded', timeout: 30000 });
-      
-      const subPageLinks = await subPage.evaluate(() => {
-        return Array.from(document.querySelectorAll('a')).map(a => ({
-          text: a.textContent?.trim().toLowerCase() || '',
-          href: a.href
-        }));
-      });
-      
-      if (!termsLink) {
-        termsLink = subPageLinks.find((link: Link) => 
-          link.text.includes('terms') || 
-          link.text.includes('conditions') || 
-          link.text.includes('mentions légales') ||
-          link.href.includes('legal')
-        ) || null;
-      }
-      
-      if (!privacyLink) {
-        privacyLink = subPageLinks.find((link: Link) => 
-          link.text.includes('privacy') || 
-          link.text.includes('confidentialité') ||
-          link.href.includes('rgpd')
-        ) || null;
-      }
-      
-      if (!cookieLink) {
-        cookieLink = subPageLinks.find((link: Link) => 
-          link.text.includes('cookie') || 
-          link.href.includes('cookie')
-        ) || null;
-      }
+      const subPageLinks = findComplianceLinks(await fetcher.getPageLinks(link.href), 'legal-page-link');
+      found = { ...subPageLinks, ...found };
       
-      await subPage.close();
-      
-      // If we found all links, stop exploring
-      if (termsLink && privacyLink && cookieLink) break;
+      // If we found all required links, stop exploring
+      if (hasRequiredDocuments({ ...found, ...known })) break;
     } catch (error) {
       console.error(`Error exploring menu link ${link.href}:`, error);
     }
   }
   
-  return { termsLink, privacyLink, cookieLink };
+  return found;
 };
 
 /**
- * Scrapes content from a specific page using OpenAI to extract the relevant content
+ * Collects the forms of the homepage and of the site's likeliest contact, sign-up and newsletter pages.
+ * Each page is read by the first fetcher that can load it; pages none can load are skipped.
  */
-const scrapePageWithOpenAI = async (url: string, context: any, documentType: string): Promise<string> => {
-  try {
-    if (!isOpenAIConfigured()) {
-      console.error('OpenAI API key not found in environment variables');
-      return `Failed to scrape ${documentType} content: OpenAI API key not found. Please add OPENAI_API_KEY to your .env file.`;
+const collectSiteForms = async (homepage: PageLinks, fetchers: PageFetcher[]): Promise<PageForms[]> => {
+  const formPages = rankFormPageLinks(homepage.links, homepage.url)
+    .filter(link => link.href.startsWith('http') && !isThirdPartyHost(new URL(link.href).hostname, homepage.url))
+    .map(link => link.href.split('#')[0])
+    .filter(href => href !== homepage.url);
+  const urls = Array.from(new Set([homepage.url, ...formPages])).slice(0, MAX_FORM_PAGES);
+  
+  const pages: PageForms[] = [];
+  for (const pageUrl of urls) {
+    for (const fetcher of fetchers) {
+      try {
+        pages.push(await fetcher.getPageForms(pageUrl));
+        break;
+      } catch (error) {
+        console.error(`The ${fetcher.name} fetcher could not read the forms of ${pageUrl}:`, error);
+      }
     }
+  }
+  return pages;
+};
 
-    const page = await context.newPage();
-    
-    // More aggressive timeouts and only wait for basic page load
-    const navigationOptions = {
-      waitUntil: 'domcontentloaded',
-      timeout: 15000 // Reduced timeout (15 seconds max)
-    };
-    
-    // Skip waiting for network idle which is very slow
-    await page.goto(url, navigationOptions);
-    
-    // Faster handling of cookie popups - only wait max 1 second
+/**
+ * Loads a compliance document with the first fetcher that gets structured text out of it.
+ * Otherwise the first thin result is kept, for the LLM extractor to work on.
+ */
+const loadDocument = async (url: string, fetchers: PageFetcher[]): Promise<LoadedDocument> => {
+  let thinDocument: LoadedDocument | null = null;
+  let lastError: unknown = null;
+  for (const fetcher of fetchers) {
     try {
-      // Try to click "Accept all" or similar buttons if they exist (for cookie popups)
-      await Promise.race([
-        page.evaluate(() => {
-          const acceptButtons = Array.from(document.querySelectorAll('button, a'))
-            .filter(button => {
-              const text = button.textContent?.toLowerCase() || '';
-              return text.includes('accept') || text.includes('agree') || text.includes('continue');
-            });
-          if (acceptButtons.length > 0) {
-            (acceptButtons[0] as HTMLElement).click();
-          }
-        }),
-        new Promise(resolve => setTimeout(resolve, 1000)) // 1 second timeout max
-      ]);
+      const document = await fetcher.loadDocument(url);
+      if (!document.rawText) return document;
+      console.log(`The ${fetcher.name} fetcher found too little structured content on ${url}`);
+      thinDocument = thinDocument || document;
     } catch (error) {
-      // Ignore errors - we won't let cookie popups slow us down
+      console.error(`The ${fetcher.name} fetcher could not load ${url}:`, error);
+      lastError = error;
     }
+  }
+  if (thinDocument) return thinDocument;
+  throw lastError;
+};
+
+// Tells the extractor about artefacts of PDF text extraction
+const PDF_PROMPT_NOTE = `This text was extracted from a PDF document: running headers, footers and page numbers may repeat between pages.
+`;
+
+/**
+ * Scrapes a compliance document verbatim, keeping its headings, lists and tables.
+ * OpenAI is only used to extract the policy from pages without a usable structure.
+ */
+const scrapePolicyPage = async (url: string, load: (url: string) => Promise<LoadedDocument>, documentType: string): Promise<ScrapedDocument> => {
+  try {
+    const document = await load(url);
     
-    // Get just the text content to reduce token usage
-    const pageContent = await page.evaluate(() => {
-      // Attempt to remove non-content elements to reduce noise
-      const elementsToRemove = [
-        'header', 'nav', 'footer', '.header', '.footer', '.navigation', '.menu', 
-        '.cookie-banner', '.cookie-notice', '.sidebar', '.ads', '.advertisement'
-      ];
-      
-      elementsToRemove.forEach(selector => {
-        document.querySelectorAll(selector).forEach(el => {
-          try { el.remove(); } catch (e) {}
-        });
-      });
-      
-      // Try to find policy specific container first
-      const possiblePolicyContainers = [
-        '.privacy-policy', '.privacy', '.policy-content', '.cookie-policy',
-        '#privacy-policy', '#cookie-policy', '.terms-content', '.legal-content',
-        '[data-content="privacy"]', '[data-content="policy"]',
-        'article', 'main', '.main-content', '.content-main', '.content'
-      ];
-      
-      let policyContainer = null;
-      for (const selector of possiblePolicyContainers) {
-        const container = document.querySelector(selector);
-        if (container && container.textContent && container.textContent.trim().length > 200) {
-          policyContainer = container;
-          break;
-        }
-      }
-      
-      // Extract clean text
-      function extractCleanText(element: HTMLElement) {
-        // Get all text nodes
-        const textNodes = [];
-        const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
-        let node;
-        while (node = walker.nextNode()) {
-          // Only keep non-empty text nodes
-          if ((node.textContent ?? '').trim()) {
-            // Check if the parent is not a script or style element
-            const parentNodeName = node.parentElement?.nodeName.toLowerCase() ?? '';
-            if (parentNodeName !== 'script' && parentNodeName !== 'style') {
-              textNodes.push(node.textContent);  // Store the text content, not the node
-            }
-          }
-        }
-        
-        // Join with newlines for readability
-        return textNodes.join('\n').replace(/\n{3,}/g, '\n\n');
-      }
-      
-      // If we found a specific container, return just that content
-      if (policyContainer) {
-        return extractCleanText(policyContainer as HTMLElement);
-      }
-      
-      // Otherwise, return the text from the body
-      return extractCleanText(document.body as HTMLElement);
-    });
+    if (document.rawText && isOpenAIConfigured()) {
+      console.log(`Too little structured ${documentType} content on ${url}, falling back to OpenAI extraction`);
+      const content = await extractPolicyWithOpenAI(document.rawText, url, documentType, document.format);
+      return { content, format: document.format, extractionMethod: 'llm' };
+    }
+    
+    if (!document.text) return { content: `No ${documentType} found on this page.`, format: document.format };
+    
+    return {
+      content: document.text,
+      format: document.format,
+      extractionMethod: 'structured',
+      outline: getDocumentOutline(document.text)
+    };
+  } catch (error: unknown) {
+    console.error(`Error scraping ${documentType} from ${url}:`, error);
     
-    // Close the page as we don't need it anymore
-    await page.close();
+    if (error && typeof error === 'object' && 'response' in error && 
+        error.response && typeof error.response === 'object' && 'data' in error.response) {
+      console.error('OpenAI API error:', error.response.data);
+    }
     
+    return { content: `Failed to scrape ${documentType} content from ${url}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+};
+
+/**
+ * Extracts a compliance document from unstructured page text using OpenAI
+ */
+const extractPolicyWithOpenAI = async (pageContent: string, url: string, documentType: string, format: DocumentFormat): Promise<string> => {
     // Truncate content to fit within token limits (80k chars max)
     const truncatedContent = pageContent.length > 80000 
       ? pageContent.substring(0, 80000) + '...[truncated]' 
@@ -491,7 +487,7 @@ const scrapePageWithOpenAI = async (url: string, context: any, documentType: str
       ${truncatedContent.substring(truncatedContent.length - contentPreviewLength)}`
       : truncatedContent;
     
-    console.log(`\n\n========== TEXT PREVIEW FOR ${documentType.toUpperCase()} (${url}) ==========`);
+    console.log(`\n\n========== TEXT PREVIEW FOR ${documentType.toUpperCase()} (${url}, ${format}) ==========`);
     console.log(contentPreview);
     console.log(`\n========== END TEXT PREVIEW (total length: ${truncatedContent.length} characters) ==========\n`);
     
@@ -506,7 +502,7 @@ Look carefully for any content related to ${documentType}.
     // Improved prompt for the model to extract just the policy
     const prompt = `Extract the complete content of the ${documentType} from this text. 
 Only extract the actual policy text, not navigation, headers, footers, or other website elements.
-${enrichedPrompt}
+${enrichedPrompt}${format === 'pdf' ? PDF_PROMPT_NOTE : ''}
 If you absolutely cannot find any content related to ${documentType}, respond with "No ${documentType} found on this page."
 Preserve the formatting and structure of the policy as much as possible.
 
@@ -542,117 +538,55 @@ ${truncatedContent}`;
     console.log(`\n========== END OPENAI RESPONSE ==========\n`);
     
     return extractedContent;
+};
+
+/**
+ * Scrapes a page that contains both privacy and cookie policies.
+ * The cookie policy is made of the page's cookie sections, or null when it has none.
+ */
+const scrapePageForMultiplePolicies = async (url: string, load: (url: string) => Promise<LoadedDocument>): Promise<{privacyPolicy: ScrapedDocument, cookiePolicy: ScrapedDocument | null}> => {
+  try {
+    const document = await load(url);
+    
+    if (document.rawText && isOpenAIConfigured()) {
+      console.log(`Too little structured policy content on ${url}, falling back to OpenAI extraction`);
+      const policies = await extractPoliciesWithOpenAI(document.rawText, url, document.format);
+      return {
+        privacyPolicy: { content: policies.privacyPolicy, format: document.format, extractionMethod: 'llm' },
+        cookiePolicy: { content: policies.cookiePolicy, format: document.format, extractionMethod: 'llm' }
+      };
+    }
+    
+    if (!document.text) {
+      return { privacyPolicy: { content: 'No privacy policy found on this page.', format: document.format }, cookiePolicy: null };
+    }
+    
+    const privacyPolicy: ScrapedDocument = {
+      content: document.text,
+      format: document.format,
+      extractionMethod: 'structured',
+      outline: getDocumentOutline(document.text)
+    };
+    return { privacyPolicy, cookiePolicy: extractCookieSectionsDocument(privacyPolicy) };
   } catch (error: unknown) {
-    console.error(`Error scraping ${documentType} from ${url}:`, error);
+    console.error(`Error scraping combined policies from ${url}:`, error);
     
     if (error && typeof error === 'object' && 'response' in error && 
         error.response && typeof error.response === 'object' && 'data' in error.response) {
       console.error('OpenAI API error:', error.response.data);
     }
     
-    return `Failed to scrape ${documentType} content from ${url}: ${error instanceof Error ? error.message : String(error)}`;
+    return {
+      privacyPolicy: { content: `Failed to extract privacy policy from ${url}: ${error instanceof Error ? error.message : String(error)}` },
+      cookiePolicy: { content: `Failed to extract cookie policy from ${url}: ${error instanceof Error ? error.message : String(error)}` }
+    };
   }
 };
 
 /**
- * Scrapes a page that contains both privacy and cookie policies
+ * Splits the privacy and cookie policies of a page's unstructured text using OpenAI
  */
-const scrapePageForMultiplePolicies = async (url: string, context: any): Promise<{privacyPolicy: string, cookiePolicy: string}> => {
-  const page = await context.newPage();
-  
-  try {
-    // Use faster navigation options
-    const navigationOptions = {
-      waitUntil: 'domcontentloaded',
-      timeout: 15000
-    };
-    
-    await page.goto(url, navigationOptions);
-    
-    // Handle cookie popups quickly without excessive waiting
-    try {
-      await Promise.race([
-        page.evaluate(() => {
-          const acceptButtons = Array.from(document.querySelectorAll('button, a'))
-            .filter(button => {
-              const text = button.textContent?.toLowerCase() || '';
-              return text.includes('accept') || text.includes('agree') || text.includes('continue') || 
-                     text.includes('accept all') || text.includes('accepter') || text.includes('j\'accepte');
-            });
-          if (acceptButtons.length > 0) {
-            (acceptButtons[0] as HTMLElement).click();
-          }
-        }),
-        new Promise(resolve => setTimeout(resolve, 1000)) // 1 second timeout max
-      ]);
-    } catch (error) {
-      // Ignore errors from cookie handling
-    }
-    
-    // Get just the text content instead of HTML to reduce token usage
-    const pageContent = await page.evaluate(() => {
-      // Attempt to remove non-content elements to reduce noise
-      const elementsToRemove = [
-        'header', 'nav', 'footer', '.header', '.footer', '.navigation', '.menu', 
-        '.cookie-banner', '.cookie-notice', '.sidebar', '.ads', '.advertisement'
-      ];
-      
-      elementsToRemove.forEach(selector => {
-        document.querySelectorAll(selector).forEach(el => {
-          try { el.remove(); } catch (e) {}
-        });
-      });
-      
-      // 1. Try to find privacy policy specific container first
-      const possiblePolicyContainers = [
-        '.privacy-policy', '.privacy', '.policy-content', '.cookie-policy',
-        '#privacy-policy', '#cookie-policy', '.terms-content', '.legal-content',
-        '[data-content="privacy"]', '[data-content="policy"]',
-        'article', 'main', '.main-content', '.content-main', '.content'
-      ];
-      
-      let policyContainer = null;
-      for (const selector of possiblePolicyContainers) {
-        const container = document.querySelector(selector);
-        if (container && container.textContent && container.textContent.trim().length > 200) {
-          policyContainer = container;
-          break;
-        }
-      }
-      
-      // If we found a specific container, return just the TEXT content
-      if (policyContainer) {
-        // Extract and clean text content to reduce tokens
-        return extractCleanText(policyContainer as HTMLElement);
-      }
-      
-      // 2. Otherwise, return the cleaned text content from the body
-      return extractCleanText(document.body as HTMLElement);
-      
-      // Helper function to extract and clean text
-      function extractCleanText(element: HTMLElement) {
-        // Get all text nodes
-        const textNodes = [];
-        const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
-        let node;
-        while (node = walker.nextNode()) {
-          // Only keep non-empty text nodes
-          if ((node.textContent ?? '').trim()) {
-            // Check if the parent is not a script or style element
-            const parentNodeName = node.parentElement?.nodeName.toLowerCase() ?? '';
-            if (parentNodeName !== 'script' && parentNodeName !== 'style') {
-              textNodes.push(node.textContent);  // Store the text content, not the node
-            }
-          }
-        }
-        
-        // Join with newlines for readability
-        return textNodes.join('\n').replace(/\n{3,}/g, '\n\n');
-      }
-    });
-    
-    await page.close();
-    
+const extractPoliciesWithOpenAI = async (pageContent: string, url: string, format: DocumentFormat): Promise<{privacyPolicy: string, cookiePolicy: string}> => {
     // Prepare truncated content for OpenAI - use much stricter limits to reduce token usage
     const truncatedContent = pageContent.length > 80000 
       ? pageContent.substring(0, 80000) + '...[truncated]' 
@@ -674,7 +608,7 @@ const scrapePageForMultiplePolicies = async (url: string, context: any): Promise
     
     // Better prompt for extracting content
     const prompt = `This is the text content from a webpage that contains a privacy policy and possibly a cookie policy.
-
+${format === 'pdf' ? PDF_PROMPT_NOTE : ''}
 Your task is to extract:
 1. The complete privacy policy text
 2. The complete cookie policy text (if present)
@@ -790,39 +724,50 @@ ${shortPrivacy}`;
       privacyPolicy,
       cookiePolicy
     };
-  } catch (error: unknown) {
-    console.error(`Error scraping combined policies from ${url}:`, error);
-    
-    if (error && typeof error === 'object' && 'response' in error && 
-        error.response && typeof error.response === 'object' && 'data' in error.response) {
-      console.error('OpenAI API error:', error.response.data);
-    }
-    
-    return {
-      privacyPolicy: `Failed to extract privacy policy from ${url}: ${error instanceof Error ? error.message : String(error)}`,
-      cookiePolicy: `Failed to extract cookie policy from ${url}: ${error instanceof Error ? error.message : String(error)}`
-    };
-  }
 };
 
 /**
- * Extracts cookie policy information from a privacy policy
+ * Builds a cookie policy from the cookie sections of a verbatim privacy policy
+ */
+const extractCookieSectionsDocument = (privacyPolicy: ScrapedDocument): ScrapedDocument | null => {
+  if (privacyPolicy.extractionMethod !== 'structured') return null;
+
+  const cookieSections = extractCookieSections(privacyPolicy.content);
+  if (!cookieSections) return null;
+
+  return {
+    content: cookieSections,
+    format: privacyPolicy.format,
+    extractionMethod: 'structured',
+    outline: getDocumentOutline(cookieSections)
+  };
+};
+
+/**
+ * Extracts cookie policy information from a privacy policy, from its cookie sections when it has
+ * headings and with OpenAI otherwise
  */
-const extractCookiePolicyFromPrivacyPolicy = async (privacyPolicyText: string | null): Promise<string> => {
-  if (!privacyPolicyText) {
-    return "No privacy policy was found from which to extract cookie information.";
+const extractCookiePolicyFromPrivacyPolicy = async (privacyPolicy: ScrapedDocument): Promise<ScrapedDocument | null> => {
+  const cookieSections = extractCookieSectionsDocument(privacyPolicy);
+  if (cookieSections) {
+    return cookieSections;
+  }
+  
+  // Failed scrapes have no extraction method, their content is an error message
+  if (!privacyPolicy.extractionMethod) {
+    return null;
   }
   
   if (!isOpenAIConfigured()) {
-    console.error('OpenAI API key not found in environment variables');
-    return 'Failed to extract cookie policy: OpenAI API key not found.';
+    console.log('No cookie sections found in the privacy policy and OpenAI is not configured');
+    return null;
   }
   
   try {
     // Truncate the privacy policy to reduce token usage
-    const truncatedPolicy = privacyPolicyText.length > 25000 
-      ? privacyPolicyText.substring(0, 25000) + '...[truncated]' 
-      : privacyPolicyText;
+    const truncatedPolicy = privacyPolicy.content.length > 25000 
+      ? privacyPolicy.content.substring(0, 25000) + '...[truncated]' 
+      : privacyPolicy.content;
     
     const prompt = `Find and extract ONLY the sections about cookies, tracking technologies, or similar technologies in this privacy policy. If there are no cookie sections, respond with "No cookie information found".
 
@@ -849,7 +794,7 @@ ${truncatedPolicy}`;
     console.log(`Extracted content length: ${extractedContent.length}`);
     console.log(`\n========== END EXTRACTION ==========\n`);
     
-    return extractedContent;
+    return { content: extractedContent, format: privacyPolicy.format, extractionMethod: 'llm' };
   } catch (error: unknown) {
     console.error('Error extracting cookie policy from privacy policy:', error);
     
@@ -858,6 +803,6 @@ ${truncatedPolicy}`;
       console.error('OpenAI API error:', error.response.data);
     }
     
-    return `Failed to extract cookie policy information: ${error instanceof Error ? error.message : String(error)}`;
+    return { content: `Failed to extract cookie policy information: ${error instanceof Error ? error.message : String(error)}` };
   }
 }; 
\ No newline at end of file
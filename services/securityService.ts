@@ -0,0 +1,328 @@
+import type { ConsoleMessage, Page, Request, Response } from 'playwright';
+import tls from 'tls';
+import { isIP } from 'net';
+import {
+  ComplianceIssue,
+  CookieSecurityFinding,
+  ObservedCookie,
+  SecurityAnalysis,
+  SecurityHeaderCheck,
+  TlsCertificate
+} from '@/types';
+import { fetchUrl } from './httpService';
+import { isAllowedByRobots, throttleHost } from './politenessService';
+import { scoreIssues } from './scoringService';
+import { safeLookup } from './urlSafetyService';
+
+// HSTS policies shorter than six months leave first visits after a break unprotected
+const MIN_HSTS_MAX_AGE = 15552000;
+
+// Certificates expiring this soon are flagged before they break the site
+const CERTIFICATE_EXPIRY_WARNING = 14 * 24 * 3600 * 1000;
+
+const TLS_PROBE_TIMEOUT = 10000;
+
+// Cookies identifying a visitor's session must not be readable by scripts or sent cross-site
+const SESSION_COOKIE_PATTERN = /sess|sid\b|auth|token|login|csrf|xsrf|remember/i;
+
+// Chromium reports blocked or upgraded insecure resources in the console
+const MIXED_CONTENT_MESSAGE = /Mixed Content:.*?'(http:\/\/[^']+)'/;
+
+export interface SecurityCapture {
+  mixedContent: Set<string>;
+  stop: () => void;
+}
+
+/**
+ * Raw evidence of the technical measures protecting the site, read during the first page load
+ */
+export interface SecurityEvidence {
+  finalUrl: string;
+  httpsRedirect: boolean | null;
+  headers: Record<string, string>;
+  tls: TlsCertificate | null;
+  mixedContent: string[];
+  cookies: ObservedCookie[];
+}
+
+/**
+ * Records insecure resources requested by HTTPS pages. Must be started before the navigation.
+ */
+export const startSecurityCapture = (page: Page): SecurityCapture => {
+  const mixedContent = new Set<string>();
+
+  const onRequest = (request: Request) => {
+    try {
+      if (!request.url().startsWith('http:')) return;
+      // The main document may legitimately start on HTTP before its redirect
+      if (request.isNavigationRequest() && request.frame() === page.mainFrame()) return;
+      if (request.frame().url().startsWith('https:')) mixedContent.add(request.url());
+    } catch (e) {
+      // Requests of service workers have no frame
+    }
+  };
+  const onConsole = (message: ConsoleMessage) => {
+    const match = message.text().match(MIXED_CONTENT_MESSAGE);
+    if (match) mixedContent.add(match[1]);
+  };
+
+  page.on('request', onRequest);
+  page.on('console', onConsole);
+
+  return {
+    mixedContent,
+    stop: () => {
+      page.off('request', onRequest);
+      page.off('console', onConsole);
+    }
+  };
+};
+
+const toIsoDate = (seconds: number | undefined): string | null => {
+  return typeof seconds === 'number' ? new Date(seconds * 1000).toISOString() : null;
+};
+
+/**
+ * Whether the plain HTTP version of the site redirects to HTTPS, null when it doesn't answer at all
+ * or its robots.txt disallows it
+ */
+export const checkHttpsRedirect = async (url: string): Promise<boolean | null> => {
+  const httpUrl = new URL(url);
+  httpUrl.protocol = 'http:';
+  if (!(await isAllowedByRobots(httpUrl.href))) return null;
+  const response = await throttleHost(httpUrl.href, () => fetchUrl(httpUrl.href, { timeout: 10000 }));
+  return response ? response.url.startsWith('https:') : null;
+};
+
+// Certificate fields repeated in the subject or issuer come as a list
+const readNameField = (value: string | string[] | undefined): string | null => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first || null;
+};
+
+const toCertificateDate = (value: string | undefined): string | null => {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+/**
+ * Reads the certificate a host presents, and whether Node's trust store accepts it, with a TLS handshake of its own:
+ * the browser is told to ignore certificate errors so that a site with an invalid one is still scanned.
+ * Returns null when the host doesn't complete a handshake.
+ */
+export const probeTlsCertificate = (url: string): Promise<TlsCertificate | null> => {
+  const { hostname, port } = new URL(url);
+  const host = hostname.replace(/^\[|\]$/g, '');
+  return throttleHost(url, () => new Promise<TlsCertificate | null>(resolve => {
+    const socket = tls.connect({
+      host,
+      port: Number(port) || 443,
+      servername: isIP(host) ? undefined : host,
+      lookup: safeLookup,
+      rejectUnauthorized: false,
+      timeout: TLS_PROBE_TIMEOUT
+    });
+    socket.once('secureConnect', () => {
+      const certificate = socket.getPeerCertificate();
+      resolve({
+        protocol: socket.getProtocol(),
+        subjectName: readNameField(certificate.subject?.CN),
+        issuer: readNameField(certificate.issuer?.O) || readNameField(certificate.issuer?.CN),
+        validFrom: toCertificateDate(certificate.valid_from),
+        validTo: toCertificateDate(certificate.valid_to),
+        authorized: socket.authorized,
+        error: socket.authorizationError ? String(socket.authorizationError) : null
+      });
+      socket.end();
+    });
+    socket.once('timeout', () => socket.destroy(new Error(`No TLS handshake with ${host} within ${TLS_PROBE_TIMEOUT} ms`)));
+    socket.once('error', error => {
+      console.error(`Error probing the TLS certificate of ${host}:`, error.message);
+      resolve(null);
+    });
+  }));
+};
+
+/**
+ * Gathers the headers and TLS certificate of the main document, the mixed content captured and
+ * whether plain HTTP redirects to HTTPS
+ */
+export const collectSecurityEvidence = async (
+  page: Page,
+  response: Response | null,
+  capture: SecurityCapture,
+  cookies: ObservedCookie[]
+): Promise<SecurityEvidence> => {
+  capture.stop();
+  const finalUrl = page.url();
+  const certificate = finalUrl.startsWith('https:') ? await probeTlsCertificate(finalUrl) : null;
+  // The browser's view of the connection, when the probe couldn't complete a handshake of its own
+  const details = !certificate && response ? await response.securityDetails().catch(() => null) : null;
+
+  return {
+    finalUrl,
+    httpsRedirect: await checkHttpsRedirect(finalUrl),
+    headers: response ? await response.allHeaders().catch(() => ({})) : {},
+    tls: certificate || (details
+      ? {
+        protocol: details.protocol ?? null,
+        subjectName: details.subjectName ?? null,
+        issuer: details.issuer ?? null,
+        validFrom: toIsoDate(details.validFrom),
+        validTo: toIsoDate(details.validTo),
+        authorized: null,
+        error: null
+      }
+      : null),
+    mixedContent: Array.from(capture.mixedContent),
+    cookies
+  };
+};
+
+const checkHeaders = (headers: Record<string, string>): SecurityHeaderCheck[] => {
+  const hsts = headers['strict-transport-security'] ?? null;
+  const maxAge = Number(hsts?.match(/max-age\s*=\s*"?(\d+)/i)?.[1] ?? 0);
+  const csp = headers['content-security-policy'] ?? null;
+  return [
+    { header: 'Strict-Transport-Security', value: hsts, ok: maxAge >= MIN_HSTS_MAX_AGE },
+    { header: 'Content-Security-Policy', value: csp, ok: !!csp }
+  ];
+};
+
+const checkCookies = (cookies: ObservedCookie[]): CookieSecurityFinding[] => {
+  // Only the site's own cookies are under its control
+  return cookies
+    .filter(cookie => !cookie.thirdParty)
+    .map(cookie => {
+      const session = SESSION_COOKIE_PATTERN.test(cookie.name);
+      const missing: CookieSecurityFinding['missing'] = [];
+      if (!cookie.secure) missing.push('Secure');
+      if (session && !cookie.httpOnly) missing.push('HttpOnly');
+      if (session && cookie.sameSite === 'None') missing.push('SameSite');
+      return { name: cookie.name, domain: cookie.domain, missing };
+    })
+    .filter(finding => finding.missing.length > 0);
+};
+
+const evaluateSecurity = (evidence: SecurityEvidence, headers: SecurityHeaderCheck[], cookies: CookieSecurityFinding[]): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+
+  if (!evidence.finalUrl.startsWith('https:')) {
+    issues.push({
+      ruleId: 'gdpr-32-https',
+      ruleName: 'Site not served over HTTPS',
+      severity: 'high',
+      description: `The site was loaded over plain HTTP (${evidence.finalUrl}), so everything visitors send, personal data included, travels unencrypted`,
+      recommendation: 'Install a TLS certificate (free from Let\'s Encrypt), serve every page over HTTPS and redirect HTTP requests to it with a 301'
+    });
+    // Without HTTPS, the other transport measures don't apply
+    return issues;
+  }
+
+  if (evidence.httpsRedirect === false) {
+    issues.push({
+      ruleId: 'gdpr-32-https-redirect',
+      ruleName: 'No redirect from HTTP to HTTPS',
+      severity: 'medium',
+      description: 'The plain HTTP version of the site is served as is instead of redirecting to HTTPS',
+      recommendation: 'Answer every HTTP request with a 301 redirect to the same URL over HTTPS'
+    });
+  }
+
+  const [hsts, csp] = headers;
+  if (!hsts.ok) {
+    issues.push({
+      ruleId: 'gdpr-32-hsts',
+      ruleName: hsts.value ? 'HSTS max-age too short' : 'No HSTS header',
+      severity: hsts.value ? 'low' : 'medium',
+      description: hsts.value
+        ? `The Strict-Transport-Security header (${hsts.value}) asks browsers to enforce HTTPS for less than six months`
+        : 'Without a Strict-Transport-Security header, browsers may still reach the site over HTTP, where connections can be intercepted',
+      recommendation: 'Send "Strict-Transport-Security: max-age=31536000; includeSubDomains" with every HTTPS response'
+    });
+  }
+
+  if (!csp.ok) {
+    const reportOnly = evidence.headers['content-security-policy-report-only'];
+    issues.push({
+      ruleId: 'gdpr-32-csp',
+      ruleName: 'No Content Security Policy',
+      severity: 'low',
+      description: reportOnly
+        ? 'A Content-Security-Policy-Report-Only header is sent, but no policy is enforced against injected scripts'
+        : 'No Content-Security-Policy header restricts which scripts may run, so an injected script could read form data',
+      recommendation: 'Send a Content-Security-Policy header listing the allowed script, frame and connection sources, starting from "default-src \'self\'" and tested in report-only mode first'
+    });
+  }
+
+  if (evidence.mixedContent.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-32-mixed-content',
+      ruleName: 'Mixed content',
+      severity: 'medium',
+      description: `HTTPS pages load resources over plain HTTP: ${evidence.mixedContent.slice(0, 10).join(', ')}`,
+      recommendation: 'Load every resource over HTTPS, for example by rewriting http:// URLs or adding "Content-Security-Policy: upgrade-insecure-requests"'
+    });
+  }
+
+  if (cookies.length > 0) {
+    issues.push({
+      ruleId: 'gdpr-32-cookie-flags',
+      ruleName: 'Cookies without security attributes',
+      severity: 'medium',
+      description: `First-party cookies miss security attributes: ${cookies.slice(0, 10).map(cookie => `${cookie.name} (${cookie.missing.join(', ')})`).join(', ')}`,
+      recommendation: 'Set the Secure attribute on every cookie, and HttpOnly and SameSite=Lax or Strict on session and authentication cookies'
+    });
+  }
+
+  const validTo = evidence.tls?.validTo ? new Date(evidence.tls.validTo).getTime() : null;
+  // Expired certificates are reported as such below, other rejections here
+  if (evidence.tls?.authorized === false && evidence.tls.error !== 'CERT_HAS_EXPIRED' && !(validTo !== null && validTo < Date.now())) {
+    issues.push({
+      ruleId: 'gdpr-32-tls-untrusted',
+      ruleName: 'TLS certificate not trusted',
+      severity: 'high',
+      description: `Browsers refuse the TLS certificate of ${evidence.tls.subjectName || 'the site'} (${evidence.tls.error || 'untrusted'}), so visitors get a security warning and connections can be intercepted`,
+      recommendation: 'Serve a certificate issued by a public certificate authority for every host name of the site, with its full intermediate chain'
+    });
+  }
+  if (validTo !== null && validTo - Date.now() < CERTIFICATE_EXPIRY_WARNING) {
+    const expired = validTo < Date.now();
+    issues.push({
+      ruleId: 'gdpr-32-tls-certificate',
+      ruleName: expired ? 'TLS certificate expired' : 'TLS certificate about to expire',
+      severity: expired ? 'high' : 'medium',
+      description: `The TLS certificate of ${evidence.tls!.subjectName || 'the site'} ${expired ? 'expired' : 'expires'} on ${evidence.tls!.validTo}`,
+      recommendation: 'Renew the certificate and automate renewals, for example with an ACME client'
+    });
+  }
+
+  return issues;
+};
+
+/**
+ * Scores the technical measures that protect personal data in transit (GDPR Art. 32):
+ * HTTPS and its redirect, HSTS, a Content Security Policy, mixed content, cookie attributes and the TLS certificate
+ */
+export const analyzeSecurity = (evidence: SecurityEvidence): SecurityAnalysis => {
+  const headers = checkHeaders(evidence.headers);
+  const cookies = checkCookies(evidence.cookies);
+  const issues = evaluateSecurity(evidence, headers, cookies);
+  const { score, compliant } = scoreIssues(issues);
+
+  return {
+    sectionName: 'Security Measures',
+    sectionText: headers.map(check => `${check.header}: ${check.value ?? 'missing'}`).join('\n'),
+    compliant,
+    score,
+    issues,
+    details: {
+      finalUrl: evidence.finalUrl,
+      httpsRedirect: evidence.httpsRedirect,
+      headers,
+      tls: evidence.tls,
+      mixedContent: evidence.mixedContent,
+      cookies
+    }
+  };
+};
@@ -0,0 +1,102 @@
+import { DiscoveryMethod } from '@/types';
+import { ComplianceLinks, hasRequiredDocuments, Link, rankComplianceLinks } from './linkDiscoveryService';
+import { decodeBody, fetchUrl } from './httpService';
+import { DOCUMENT_TYPES } from './documentTypeService';
+import { getRobotsTxt, isAllowedByRobots, throttleHost } from './politenessService';
+
+// Sitemap indexes of large sites can reference hundreds of child sitemaps
+const MAX_CHILD_SITEMAPS = 10;
+const MAX_SITEMAP_URLS = 5000;
+
+/**
+ * GETs a text resource within the host's limits, returning its final URL and body, or null when it is unavailable
+ */
+const fetchText = async (url: string): Promise<{ url: string; body: string } | null> => {
+  const response = await throttleHost(url, () => fetchUrl(url, { timeout: 10000, maxContentLength: 10 * 1024 * 1024 }));
+  return response ? { url: response.url, body: decodeBody(response) } : null;
+};
+
+/**
+ * Lists the page URLs of a sitemap, following sitemap indexes one level deep
+ */
+const getSitemapUrls = async (sitemapUrl: string, followIndex = true): Promise<string[]> => {
+  const xml = (await fetchText(sitemapUrl))?.body;
+  if (!xml) return [];
+
+  const locations = Array.from(xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?\s*([^<\]\s]+)\s*(?:\]\]>)?\s*<\/loc>/gi))
+    .map(match => match[1].replace(/&amp;/g, '&'));
+
+  if (/<sitemapindex[\s>]/i.test(xml)) {
+    if (!followIndex) return [];
+
+    // Child sitemaps named after pages or legal content are the most likely to list policies
+    const children = locations
+      .filter(location => !location.endsWith('.gz'))
+      .sort((a, b) => Number(/page|legal|policy|static/i.test(b)) - Number(/page|legal|policy|static/i.test(a)))
+      .slice(0, MAX_CHILD_SITEMAPS);
+
+    const urls: string[] = [];
+    for (const child of children) {
+      urls.push(...await getSitemapUrls(child, false));
+      if (urls.length >= MAX_SITEMAP_URLS) break;
+    }
+    return urls.slice(0, MAX_SITEMAP_URLS);
+  }
+
+  return locations.slice(0, MAX_SITEMAP_URLS);
+};
+
+/**
+ * Builds a link from a bare URL, using its last path segment as link text
+ */
+const toLink = (href: string, discoveryMethod: DiscoveryMethod): Link => {
+  let text = '';
+  try {
+    const segments = new URL(href).pathname.split('/').filter(Boolean);
+    text = decodeURIComponent(segments[segments.length - 1] || '').replace(/\.[a-z]+$/i, '').replace(/[-_]+/g, ' ');
+  } catch (e) {
+    // Leave the text empty, the URL itself is still scored
+  }
+  return { text, href, discoveryMethod };
+};
+
+// Links already known take precedence over those found later
+const mergeLinks = (current: ComplianceLinks, found: ComplianceLinks): ComplianceLinks => ({ ...found, ...current });
+
+/**
+ * Fallback discovery for sites whose policy links are not in the rendered HTML (lazy footers, SPAs):
+ * sitemaps declared in robots.txt, then /sitemap.xml, then the well-known paths of missing documents.
+ * Only the documents still missing from `known` are looked up, until every required one is found.
+ */
+export const discoverPolicyUrls = async (siteUrl: string, known: ComplianceLinks): Promise<ComplianceLinks> => {
+  const origin = new URL(siteUrl).origin;
+  let links = { ...known };
+
+  const robotsSitemaps = (await getRobotsTxt(origin)).sitemaps;
+  for (const sitemap of robotsSitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+    const urls = await getSitemapUrls(sitemap);
+    links = mergeLinks(links, rankComplianceLinks(urls.map(url => toLink(url, 'robots-sitemap')), siteUrl));
+    if (hasRequiredDocuments(links)) return links;
+  }
+
+  if (!robotsSitemaps.includes(`${origin}/sitemap.xml`)) {
+    const urls = await getSitemapUrls(`${origin}/sitemap.xml`);
+    links = mergeLinks(links, rankComplianceLinks(urls.map(url => toLink(url, 'sitemap')), siteUrl));
+    if (hasRequiredDocuments(links)) return links;
+  }
+
+  // Paths redirecting to the homepage don't contain any keyword and are scored out
+  const paths: string[] = [];
+  DOCUMENT_TYPES.filter(type => !links[type.key]).forEach(type => {
+    type.paths.forEach(path => { if (!paths.includes(path)) paths.push(path); });
+  });
+  // Sitemaps are meant for crawlers, the well-known paths are pages and robots.txt may rule them out
+  const probes = await Promise.all(paths.map(async path => {
+    const url = `${origin}${path}`;
+    return await isAllowedByRobots(url) ? fetchText(url) : null;
+  }));
+  const existing = probes.filter((probe): probe is { url: string; body: string } => !!probe);
+  links = mergeLinks(links, rankComplianceLinks(existing.map(probe => toLink(probe.url, 'well-known-path')), siteUrl));
+
+  return links;
+};
@@ -0,0 +1,114 @@
+import { parseHTML } from 'linkedom';
+import { decodeBody, fetchUrl, HttpResponse } from './httpService';
+import { CrawlPage, LoadedDocument, MIN_DOCUMENT_LENGTH, PageFetcher, PageLinks } from './fetcherService';
+import { collectDocumentForms, PageForms } from './formService';
+import { collectDocumentLinks } from './linkDiscoveryService';
+import { extractPdfText, isPdfContentType } from './pdfService';
+import { extractHtmlMarkdown, SITE_CHROME_SELECTOR } from './policyExtractionService';
+import { extractStaticPaginatedDocument } from './pageExpansionService';
+import { isAllowedByRobots, loadPolitely, throttleHost } from './politenessService';
+import { ScanProfile } from '@/types';
+
+const PAGE_TIMEOUT = 15000;
+
+// Elements stripped before reading the plain text of a page
+const NON_CONTENT_SELECTOR = `${SITE_CHROME_SELECTOR}, header, footer, script, style, noscript, template, svg`;
+
+const isPdfResponse = (response: HttpResponse): boolean => {
+  // Some servers send PDFs as application/octet-stream, the file signature is authoritative
+  return isPdfContentType(response.contentType) || response.body.subarray(0, 5).toString('latin1') === '%PDF-';
+};
+
+// Headers sent with every request, such as the Accept-Language of the scan's profile
+type RequestHeaders = Record<string, string>;
+
+const fetchPage = async (url: string, headers: RequestHeaders, timeout = PAGE_TIMEOUT): Promise<HttpResponse> => {
+  const response = await loadPolitely(url, () => fetchUrl(url, { timeout, headers }));
+  if (!response) {
+    throw new Error(`Failed to download ${url}`);
+  }
+  return response;
+};
+
+const parseDocument = (response: HttpResponse): Document => {
+  return parseHTML(decodeBody(response)).document;
+};
+
+/**
+ * Reads the plain text of a parsed page, for the LLM extractor when the page has no usable structure
+ */
+const readDocumentText = (document: Document): string => {
+  Array.from(document.querySelectorAll(NON_CONTENT_SELECTOR)).forEach(element => element.remove());
+  return (document.body?.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+};
+
+const getPageLinks = async (url: string, headers: RequestHeaders, timeout?: number): Promise<PageLinks> => {
+  const response = await fetchPage(url, headers, timeout);
+  const links = collectDocumentLinks(parseDocument(response), response.url);
+  // Pages rendered by JavaScript ship an empty shell, only a browser sees their links
+  if (!links.length) {
+    throw new Error(`No links in the HTML of ${response.url}, the page is probably rendered client-side`);
+  }
+  return { url: response.url, links };
+};
+
+const loadDocument = async (url: string, headers: RequestHeaders): Promise<LoadedDocument> => {
+  const response = await fetchPage(url, headers);
+
+  if (isPdfResponse(response)) {
+    const text = await extractPdfText(new Uint8Array(response.body));
+    if (!text) {
+      // Scanned PDFs only contain images, which would need OCR
+      throw new Error(`PDF document at ${url} contains no extractable text`);
+    }
+    return { text, format: 'pdf' };
+  }
+
+  const document = parseDocument(response);
+  const text = await extractStaticPaginatedDocument(response.url, document, async nextUrl => {
+    // A page robots.txt disallows ends the document, like an unavailable one
+    if (!(await isAllowedByRobots(nextUrl))) return null;
+    const next = await throttleHost(nextUrl, () => fetchUrl(nextUrl, { timeout: PAGE_TIMEOUT, headers }));
+    return next && !isPdfResponse(next) ? parseDocument(next) : null;
+  }, extractHtmlMarkdown);
+  // Pages whose structure the extractor can't make sense of are left to the LLM extractor as plain text
+  const rawText = text.length < MIN_DOCUMENT_LENGTH ? readDocumentText(document) : undefined;
+  return { text, format: 'html', rawText };
+};
+
+const getPageForms = async (url: string, headers: RequestHeaders): Promise<PageForms> => {
+  const response = await fetchPage(url, headers);
+  return { url: response.url, forms: collectDocumentForms(parseDocument(response), response.url) };
+};
+
+const crawlPage = async (url: string, headers: RequestHeaders): Promise<CrawlPage> => {
+  const response = await fetchPage(url, headers);
+  if (isPdfResponse(response)) return { url: response.url, links: [], forms: [], tracking: null };
+  const document = parseDocument(response);
+  return {
+    url: response.url,
+    links: collectDocumentLinks(document, response.url),
+    forms: collectDocumentForms(document, response.url),
+    tracking: null
+  };
+};
+
+/**
+ * Creates a fetcher downloading pages over plain HTTP and parsing their HTML locally.
+ * It needs no browser but misses content rendered by JavaScript, collapsed content is read as is.
+ * Of a scan profile, only the language can be sent without a browser.
+ */
+export const createStaticFetcher = (profile?: ScanProfile): PageFetcher => {
+  const headers: RequestHeaders = profile ? { 'Accept-Language': profile.acceptLanguage } : {};
+  return {
+    name: 'static',
+    getPageLinks: (url, timeout) => getPageLinks(url, headers, timeout),
+    loadDocument: url => loadDocument(url, headers),
+    getPageForms: url => getPageForms(url, headers),
+    crawlPage: url => crawlPage(url, headers)
+  };
+};
@@ -0,0 +1,238 @@
+import type { Page } from 'playwright';
+import { ComplianceIssue, ConsentState, StorageAccess, StorageAccessReport, StorageApi } from '@/types';
+import { isThirdPartyHost } from './trackingService';
+
+// Name of the function through which the instrumented page reports each access
+const BINDING_NAME = '__complianceStorageAccess' as const;
+
+// Calls reported per distinct access, so that a script polling storage can't flood the scan
+const MAX_REPORTS_PER_ACCESS = 100;
+
+// A consent choice is only respected when nothing non-essential happens without it
+const UNCONSENTED_STATES: ConsentState[] = ['none', 'reject'];
+
+export interface RecordedStorageAccess {
+  api: StorageApi;
+  operation: string;
+  key?: string;
+  scriptUrl: string | null;
+  fingerprinting: boolean;
+}
+
+export interface StorageCapture {
+  accesses: RecordedStorageAccess[];
+  stop: () => void;
+}
+
+declare global {
+  interface Window {
+    // Exposed by Playwright under BINDING_NAME
+    __complianceStorageAccess?: (access: RecordedStorageAccess) => Promise<void>;
+  }
+}
+
+/**
+ * Wraps the storage and fingerprinting APIs of every frame so that each call is reported with the URL
+ * of the script that made it, read from the call stack. Runs in the browser before any page script,
+ * so it must stay self-contained. Direct property access such as `localStorage.key = value` is not seen.
+ */
+const instrumentStorageApis = ({ bindingName, maxReports }: { bindingName: typeof BINDING_NAME; maxReports: number }) => {
+  const pending: RecordedStorageAccess[] = [];
+  const reportCounts: Record<string, number> = {};
+  const textCanvases = new WeakSet<HTMLCanvasElement>();
+  let reporting = false;
+
+  const callerUrl = (): string | null => {
+    const lines = (new Error().stack || '').split('\n').slice(1);
+    for (const line of lines) {
+      const match = line.match(/(https?:\/\/[^\s()]+?):\d+:\d+/);
+      if (match) return match[1];
+    }
+    return null;
+  };
+
+  const report = (api: StorageApi, operation: string, key: string | undefined, fingerprinting: boolean) => {
+    if (reporting) return;
+    reporting = true;
+    try {
+      const scriptUrl = callerUrl();
+      const id = [api, operation, key, scriptUrl].join('|');
+      reportCounts[id] = (reportCounts[id] || 0) + 1;
+      if (reportCounts[id] <= maxReports) pending.push({ api, operation, key, scriptUrl, fingerprinting });
+      // The binding is installed with the page, accesses made before it exists are sent with the next one
+      const binding = window[bindingName];
+      if (typeof binding === 'function') {
+        pending.splice(0, pending.length).forEach(access => {
+          Promise.resolve(binding(access)).catch(() => {});
+        });
+      }
+    } catch (e) {
+      // Reporting must never break the page
+    }
+    reporting = false;
+  };
+
+  const wrap = <T extends object, K extends keyof T>(proto: T | undefined, method: K, onCall: (self: T, args: IArguments) => void) => {
+    if (!proto || typeof proto[method] !== 'function') return;
+    const original = proto[method] as unknown as (this: T, ...args: unknown[]) => unknown;
+    (proto as Record<K, unknown>)[method] = function (this: T) {
+      try {
+        onCall(this, arguments);
+      } catch (e) {
+        // Instrumentation errors must not change the page's behaviour
+      }
+      return original.apply(this, Array.prototype.slice.call(arguments));
+    };
+  };
+
+  const storageName = (storage: Storage): StorageApi => {
+    try {
+      return storage === window.sessionStorage ? 'sessionStorage' : 'localStorage';
+    } catch (e) {
+      return 'localStorage';
+    }
+  };
+
+  (['getItem', 'setItem', 'removeItem', 'clear'] as const).forEach(method => {
+    wrap(window.Storage && window.Storage.prototype, method, (self, args) => {
+      report(storageName(self), method, args.length ? String(args[0]) : undefined, false);
+    });
+  });
+
+  wrap(window.IDBFactory && window.IDBFactory.prototype, 'open', (self, args) => report('indexedDB', 'open', String(args[0]), false));
+  wrap(window.ServiceWorkerContainer && window.ServiceWorkerContainer.prototype, 'register', (self, args) => {
+    report('serviceWorker', 'register', String(args[0]), false);
+  });
+
+  // Canvas fingerprinting draws text, then reads the pixels back: rendering differs between machines
+  const markText = (self: CanvasRenderingContext2D) => {
+    if (self && self.canvas) textCanvases.add(self.canvas);
+  };
+  wrap(window.CanvasRenderingContext2D && window.CanvasRenderingContext2D.prototype, 'fillText', markText);
+  wrap(window.CanvasRenderingContext2D && window.CanvasRenderingContext2D.prototype, 'strokeText', markText);
+  const readCanvas = (operation: string) => (canvas: HTMLCanvasElement | undefined) => {
+    if (canvas && textCanvases.has(canvas)) report('canvas', operation, `${canvas.width}×${canvas.height}`, true);
+  };
+  wrap(window.HTMLCanvasElement && window.HTMLCanvasElement.prototype, 'toDataURL', readCanvas('toDataURL'));
+  wrap(window.HTMLCanvasElement && window.HTMLCanvasElement.prototype, 'toBlob', readCanvas('toBlob'));
+  wrap(window.CanvasRenderingContext2D && window.CanvasRenderingContext2D.prototype, 'getImageData', self => {
+    readCanvas('getImageData')(self && self.canvas);
+  });
+
+  // The unmasked vendor and renderer name the visitor's graphics card
+  const UNMASKED_PARAMETERS: Record<number, string> = { 37445: 'UNMASKED_VENDOR_WEBGL', 37446: 'UNMASKED_RENDERER_WEBGL' };
+  const readParameter = (self: WebGLRenderingContext | WebGL2RenderingContext, args: IArguments) => {
+    const parameter = UNMASKED_PARAMETERS[Number(args[0])];
+    if (parameter) report('webgl', 'getParameter', parameter, true);
+  };
+  wrap(window.WebGLRenderingContext && window.WebGLRenderingContext.prototype, 'getParameter', readParameter);
+  wrap(window.WebGL2RenderingContext && window.WebGL2RenderingContext.prototype, 'getParameter', readParameter);
+
+  // Audio fingerprinting renders a signal offline and reads how the machine processed it
+  wrap(window.OfflineAudioContext && window.OfflineAudioContext.prototype, 'startRendering', () => {
+    report('audio', 'startRendering', undefined, true);
+  });
+};
+
+/**
+ * Starts recording the storage and fingerprinting API calls of a page and its frames.
+ * Must be called before the first navigation so that nothing is missed, and stopped before the scanner
+ * evaluates its own scripts in the page, whose calls would otherwise be attributed to the site.
+ */
+export const startStorageCapture = async (page: Page): Promise<StorageCapture> => {
+  const accesses: RecordedStorageAccess[] = [];
+  let recording = true;
+  await page.exposeBinding(BINDING_NAME, (source, access: RecordedStorageAccess) => {
+    if (recording) accesses.push(access);
+  });
+  await page.addInitScript(instrumentStorageApis, { bindingName: BINDING_NAME, maxReports: MAX_REPORTS_PER_ACCESS });
+  return {
+    accesses,
+    stop: () => {
+      recording = false;
+    }
+  };
+};
+
+const getOrigin = (url: string | null): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).origin;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Merges repeated calls, attributing each access to its script's origin
+ */
+const summarizeAccesses = (state: ConsentState, recorded: RecordedStorageAccess[], siteUrl: string): StorageAccess[] => {
+  const accesses = new Map<string, StorageAccess>();
+  recorded.forEach(access => {
+    const id = [access.api, access.operation, access.key, access.scriptUrl].join('|');
+    const existing = accesses.get(id);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+
+    const scriptOrigin = getOrigin(access.scriptUrl);
+    accesses.set(id, {
+      ...access,
+      scriptOrigin,
+      thirdParty: scriptOrigin !== null && isThirdPartyHost(new URL(scriptOrigin).hostname, siteUrl),
+      state,
+      count: 1
+    });
+  });
+  return Array.from(accesses.values());
+};
+
+const describeAccesses = (accesses: StorageAccess[]): string => {
+  const descriptions = accesses.map(access => `${access.api} ${access.operation} by ${access.scriptOrigin || 'an inline script'}`);
+  return Array.from(new Set(descriptions)).slice(0, 10).join(', ');
+};
+
+/**
+ * Reports the storage written and the fingerprinting APIs read without consent (ePrivacy Directive Art. 5(3)),
+ * which covers any information stored in or read from the visitor's device, not only cookies
+ */
+export const evaluateStorageAccess = (
+  scans: { state: ConsentState; accesses: RecordedStorageAccess[] }[],
+  siteUrl: string
+): StorageAccessReport => {
+  const accesses = scans.flatMap(scan => summarizeAccesses(scan.state, scan.accesses, siteUrl));
+  const unconsented = accesses.filter(access => UNCONSENTED_STATES.includes(access.state));
+  const issues: ComplianceIssue[] = [];
+
+  const fingerprinting = unconsented.filter(access => access.fingerprinting);
+  if (fingerprinting.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-fingerprinting',
+      ruleName: 'Device fingerprinting without consent',
+      severity: 'high',
+      description: `Scripts read device characteristics used for fingerprinting before consent or after a refusal: ${describeAccesses(fingerprinting)}`,
+      recommendation: 'Fingerprinting needs the same consent as cookies: load these scripts only after the visitor has opted in'
+    });
+  }
+
+  // Writes by third-party scripts are rarely strictly necessary, reads of what they stored earlier are not counted again
+  const thirdPartyWrites = unconsented.filter(access =>
+    access.thirdParty && !access.fingerprinting && ['setItem', 'open', 'register'].includes(access.operation)
+  );
+  if (thirdPartyWrites.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-storage-access',
+      ruleName: 'Third-party storage without consent',
+      severity: 'medium',
+      description: `Third-party scripts stored data on the device before consent or after a refusal: ${describeAccesses(thirdPartyWrites)}`,
+      recommendation: 'ePrivacy consent rules apply to web storage, IndexedDB and service workers as they do to cookies. Defer these scripts until consent'
+    });
+  }
+
+  return {
+    accesses,
+    compliant: !issues.some(issue => issue.severity === 'high'),
+    issues
+  };
+};
@@ -0,0 +1,310 @@
+import type { Page } from 'playwright';
+import { ComplianceIssue, ConsentState, TcfAnalysis, TcfConsent, TcfSource, TcfStateObservation } from '@/types';
+
+// Name of the TC string cookie and localStorage entry under TCF v2
+const TC_STRING_NAME = 'euconsent-v2';
+
+const TCF_API_TIMEOUT = 3000;
+
+// The Global Vendor List has about a thousand vendors, a string listing more is rejected rather than expanded
+const MAX_VENDORS = 5000;
+
+// The fields of the CMP's TCData that are read, the TC string being decoded here rather than trusted
+interface TCData {
+  tcString?: string;
+}
+
+type TcfApi = (command: 'getTCData', version: 2, callback: (data: TCData | null, success: boolean) => void) => void;
+
+declare global {
+  interface Window {
+    __tcfapi?: TcfApi;
+  }
+}
+
+// Purposes and special features of TCF v2.2, by ID
+export const TCF_PURPOSES: Record<number, string> = {
+  1: 'Store and/or access information on a device',
+  2: 'Use limited data to select advertising',
+  3: 'Create profiles for personalised advertising',
+  4: 'Use profiles to select personalised advertising',
+  5: 'Create profiles to personalise content',
+  6: 'Use profiles to select personalised content',
+  7: 'Measure advertising performance',
+  8: 'Measure content performance',
+  9: 'Understand audiences through statistics or combinations of data from different sources',
+  10: 'Develop and improve services',
+  11: 'Use limited data to select content'
+};
+
+export const TCF_SPECIAL_FEATURES: Record<number, string> = {
+  1: 'Use precise geolocation data',
+  2: 'Actively scan device characteristics for identification'
+};
+
+// Purposes that can never rest on legitimate interest, and those added by TCF v2.2 (policy version 4)
+const CONSENT_ONLY_PURPOSES = [1];
+const CONSENT_ONLY_PURPOSES_V2_2 = [1, 3, 4, 5, 6];
+
+/**
+ * Reads a TC string's bits from the most significant bit of its first byte
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  int(length: number): number {
+    let value = 0;
+    for (let index = 0; index < length; index++) {
+      const byte = this.bytes[(this.position + index) >> 3];
+      if (byte === undefined) throw new Error('The TC string is truncated');
+      // Multiplication rather than shifts: timestamps are 36 bits long
+      value = value * 2 + ((byte >> (7 - ((this.position + index) & 7))) & 1);
+    }
+    this.position += length;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.int(1) === 1;
+  }
+
+  /** IDs, starting at 1, of the set bits of a bit field */
+  bitField(length: number): number[] {
+    const ids: number[] = [];
+    for (let id = 1; id <= length; id++) {
+      if (this.bool()) ids.push(id);
+    }
+    return ids;
+  }
+
+  letters(count: number): string {
+    let text = '';
+    for (let index = 0; index < count; index++) text += String.fromCharCode(65 + this.int(6));
+    return text;
+  }
+}
+
+/**
+ * Reads a vendor section, encoded as a bit field or as ranges of vendor IDs
+ */
+const readVendors = (reader: BitReader): number[] => {
+  const maxVendorId = reader.int(16);
+  if (!reader.bool()) return reader.bitField(maxVendorId);
+
+  const vendors: number[] = [];
+  const entries = reader.int(12);
+  for (let entry = 0; entry < entries; entry++) {
+    const isRange = reader.bool();
+    const start = reader.int(16);
+    const end = Math.min(isRange ? reader.int(16) : start, maxVendorId);
+    // Ranges come from the scanned site, they are counted before they are expanded
+    if (end >= start && vendors.length + end - start + 1 > MAX_VENDORS) {
+      throw new Error(`The TC string lists more than ${MAX_VENDORS} vendors`);
+    }
+    for (let id = start; id <= end; id++) vendors.push(id);
+  }
+  return vendors;
+};
+
+/**
+ * Decodes the core segment of a TCF v2 TC string. Publisher restrictions and the optional
+ * disclosed-vendors and publisher segments are not read.
+ */
+export const decodeTcString = (tcString: string): TcfConsent => {
+  const core = tcString.trim().split('.')[0];
+  if (!/^[A-Za-z0-9_-]+$/.test(core)) throw new Error('The TC string is not base64url-encoded');
+
+  const reader = new BitReader(new Uint8Array(Buffer.from(core, 'base64url')));
+  const version = reader.int(6);
+  if (version !== 2) throw new Error(`Unsupported TC string version ${version}`);
+
+  // Timestamps are in deciseconds
+  const created = new Date(reader.int(36) * 100).toISOString();
+  const lastUpdated = new Date(reader.int(36) * 100).toISOString();
+  const cmpId = reader.int(12);
+  const cmpVersion = reader.int(12);
+  reader.int(6); // consent screen
+  const consentLanguage = reader.letters(2);
+  const vendorListVersion = reader.int(12);
+  const policyVersion = reader.int(6);
+  const isServiceSpecific = reader.bool();
+  reader.bool(); // use of non-standard texts
+  const specialFeatureOptIns = reader.bitField(12);
+  const purposeConsents = reader.bitField(24);
+  const purposeLegitimateInterests = reader.bitField(24);
+  reader.bool(); // purpose one treatment
+  const publisherCountry = reader.letters(2);
+
+  return {
+    version,
+    created,
+    lastUpdated,
+    cmpId,
+    cmpVersion,
+    consentLanguage,
+    vendorListVersion,
+    policyVersion,
+    isServiceSpecific,
+    publisherCountry,
+    specialFeatureOptIns,
+    purposeConsents,
+    purposeLegitimateInterests,
+    vendorConsents: readVendors(reader),
+    vendorLegitimateInterests: readVendors(reader)
+  };
+};
+
+/**
+ * Asks the page's CMP for its TC string through the TCF API.
+ * Runs in the browser, so it must stay self-contained.
+ */
+const queryTcfApi = (timeout: number): Promise<{ apiFound: boolean; tcString: string | null }> => {
+  return new Promise(resolve => {
+    const api = window.__tcfapi;
+    if (typeof api !== 'function') return resolve({ apiFound: false, tcString: null });
+
+    const timer = setTimeout(() => resolve({ apiFound: true, tcString: null }), timeout);
+    try {
+      api('getTCData', 2, (data, success) => {
+        clearTimeout(timer);
+        resolve({ apiFound: true, tcString: success && data && data.tcString ? String(data.tcString) : null });
+      });
+    } catch (e) {
+      clearTimeout(timer);
+      resolve({ apiFound: true, tcString: null });
+    }
+  });
+};
+
+/**
+ * Reads the page's current TC string from the TCF API, the euconsent-v2 cookie or localStorage, and decodes it
+ */
+export const readTcfState = async (page: Page, state: ConsentState): Promise<TcfStateObservation> => {
+  let apiFound = false;
+  let source: TcfSource | null = null;
+  let tcString: string | null = null;
+
+  try {
+    const api = await page.evaluate(queryTcfApi, TCF_API_TIMEOUT);
+    apiFound = api.apiFound;
+    if (api.tcString) {
+      source = 'api';
+      tcString = api.tcString;
+    }
+  } catch (error) {
+    console.error('Error querying the TCF API:', error);
+  }
+
+  if (!tcString) {
+    const cookie = (await page.context().cookies()).find(cookie => cookie.name === TC_STRING_NAME && cookie.value);
+    if (cookie) {
+      source = 'cookie';
+      tcString = cookie.value;
+    }
+  }
+
+  if (!tcString) {
+    const stored = await page.evaluate(name => window.localStorage.getItem(name), TC_STRING_NAME).catch(() => null);
+    if (stored) {
+      source = 'localStorage';
+      tcString = stored;
+    }
+  }
+
+  const observation: TcfStateObservation = { state, apiFound, source, tcString, consent: null };
+  if (tcString) {
+    try {
+      observation.consent = decodeTcString(tcString);
+    } catch (error) {
+      observation.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return observation;
+};
+
+const describePurposes = (ids: number[]): string => ids.map(id => `${id} (${TCF_PURPOSES[id] || 'unknown'})`).join(', ');
+
+/**
+ * Checks the TC strings of the three consent states against the choices made: nothing may be consented
+ * before a choice or after "reject all", and legitimate interest can't replace consent for some purposes.
+ * Returns null when the site doesn't use the TCF.
+ */
+export const evaluateTcf = (states: TcfStateObservation[], rejectClicked: boolean): TcfAnalysis | null => {
+  if (!states.some(observation => observation.apiFound || observation.tcString)) return null;
+
+  const issues: ComplianceIssue[] = [];
+  const none = states.find(observation => observation.state === 'none');
+  const reject = states.find(observation => observation.state === 'reject');
+
+  const granted = (consent: TcfConsent | null): boolean => {
+    return !!consent && (consent.purposeConsents.length > 0 || consent.vendorConsents.length > 0 || consent.specialFeatureOptIns.length > 0);
+  };
+
+  if (none && granted(none.consent)) {
+    issues.push({
+      ruleId: 'tcf-consent-without-choice',
+      ruleName: 'TCF consent recorded without a choice',
+      severity: 'high',
+      description: `Before any interaction with the banner, the TC string already grants consent for purposes ${describePurposes(none.consent!.purposeConsents) || 'none'} and ${none.consent!.vendorConsents.length} vendor(s)`,
+      recommendation: 'Only record consent in the TC string once the visitor has made an affirmative choice'
+    });
+  }
+
+  if (reject && rejectClicked) {
+    if (granted(reject.consent)) {
+      const consent = reject.consent!;
+      issues.push({
+        ruleId: 'tcf-reject-not-respected',
+        ruleName: 'TC string grants consent after "reject all"',
+        severity: 'high',
+        description: `After "reject all", the TC string still grants consent for purposes ${describePurposes(consent.purposeConsents) || 'none'}, ${consent.vendorConsents.length} vendor(s) and special features ${consent.specialFeatureOptIns.join(', ') || 'none'}`,
+        recommendation: 'Make "reject all" clear every purpose consent, vendor consent and special feature opt-in in the TC string'
+      });
+    } else if (reject.apiFound && !reject.tcString) {
+      issues.push({
+        ruleId: 'tcf-reject-not-recorded',
+        ruleName: 'Refusal not recorded in the TC string',
+        severity: 'low',
+        description: 'The page exposes the TCF API but no TC string was available after "reject all", so vendors receive no signal of the refusal',
+        recommendation: 'Have the CMP generate a TC string recording the refusal, so that vendors relying on the TCF honour it'
+      });
+    }
+  }
+
+  const legitimateInterestClaims = new Set<number>();
+  states.forEach(observation => {
+    if (!observation.consent) return;
+    const consentOnly = observation.consent.policyVersion >= 4 ? CONSENT_ONLY_PURPOSES_V2_2 : CONSENT_ONLY_PURPOSES;
+    observation.consent.purposeLegitimateInterests
+      .filter(id => consentOnly.includes(id))
+      .forEach(id => legitimateInterestClaims.add(id));
+  });
+  if (legitimateInterestClaims.size > 0) {
+    issues.push({
+      ruleId: 'tcf-legitimate-interest',
+      ruleName: 'Legitimate interest claimed for consent-only purposes',
+      severity: 'medium',
+      description: `The TC string establishes legitimate interest for purposes that require consent: ${describePurposes(Array.from(legitimateInterestClaims).sort((a, b) => a - b))}`,
+      recommendation: 'Storing information on the device and personalised advertising or content profiles need consent; remove the legitimate interest basis for these purposes'
+    });
+  }
+
+  const undecodable = states.filter(observation => observation.error);
+  if (undecodable.length > 0) {
+    issues.push({
+      ruleId: 'tcf-invalid-string',
+      ruleName: 'Invalid TC string',
+      severity: 'low',
+      description: `The TC string could not be decoded: ${undecodable[0].error}`,
+      recommendation: 'Check that the CMP is registered with IAB Europe and produces valid TCF v2 strings'
+    });
+  }
+
+  return {
+    states,
+    compliant: !issues.some(issue => issue.severity === 'high'),
+    issues
+  };
+};
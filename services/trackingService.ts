@@ -0,0 +1,227 @@
+import type { BrowserContext, Page, Request } from 'playwright';
+import { ComplianceIssue, ObservedCookie, ObservedRequest, PreConsentTracking } from '@/types';
+import { isTrackingVendorHost } from './vendorService';
+
+// Cookie names and name prefixes set by common analytics and advertising scripts
+const TRACKING_COOKIE_NAMES = [
+  'IDE', 'NID', 'DSID', 'test_cookie', 'fr', 'MUID', 'bcookie', 'lidc', 'hubspotutk', 'uuid2', 'anj'
+];
+const TRACKING_COOKIE_PREFIXES = [
+  '_ga', '_gid', '_gat', '_gcl_', '__utm', '_dc_gtm', '_fbp', '_fbc', '_uetsid', '_uetvid',
+  '_hjid', '_hjSession', '_clck', '_clsk', '_pin_unauth', '_ttp', '_tt_', '_scid', 'li_',
+  '__hs', 'ajs_', 'mp_', 'amplitude', '_pk_id', '_pk_ses', 'cto_'
+];
+
+// Hosts that only serve analytics or advertising scripts and beacons, on top of the tracker database's
+// analytics and advertising vendors
+const TRACKING_HOSTS = [
+  'google-analytics.com', 'googletagmanager.com', 'doubleclick.net', 'googleadservices.com',
+  'googlesyndication.com', 'facebook.net', 'facebook.com', 'hotjar.com', 'clarity.ms',
+  'bat.bing.com', 'snap.licdn.com', 'ads.linkedin.com', 'analytics.tiktok.com', 'criteo.com',
+  'criteo.net', 'taboola.com', 'outbrain.com', 'adnxs.com', 'scorecardresearch.com',
+  'quantserve.com', 'hs-analytics.net', 'segment.io', 'mixpanel.com', 'amplitude.com',
+  'pinterest.com', 'ads-twitter.com', 'matomo.cloud'
+];
+
+// Public suffixes made of two labels, so that "shop.example.co.uk" resolves to "example.co.uk"
+const MULTI_PART_SUFFIXES = [
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'com.au', 'net.au', 'co.nz', 'co.jp', 'com.br',
+  'com.mx', 'co.za', 'com.tr', 'com.pl', 'com.es', 'com.pt', 'co.at', 'or.at', 'co.il'
+];
+
+export interface TrackingSnapshot {
+  cookies: ObservedCookie[];
+  localStorageKeys: string[];
+  thirdPartyRequests: ObservedRequest[];
+}
+
+export interface NetworkCapture {
+  requests: ObservedRequest[];
+  stop: () => void;
+}
+
+/**
+ * Returns the registrable domain (eTLD+1) of a hostname
+ */
+export const getRegistrableDomain = (hostname: string): string => {
+  const host = hostname.toLowerCase().replace(/^\./, '').replace(/\.$/, '');
+
+  // IP addresses have no registrable domain
+  if (/^[\d.]+$/.test(host) || host.includes(':')) {
+    return host;
+  }
+
+  const labels = host.split('.');
+  const suffixLength = MULTI_PART_SUFFIXES.some(suffix => host.endsWith(`.${suffix}`)) ? 3 : 2;
+  return labels.slice(-suffixLength).join('.');
+};
+
+/**
+ * Checks whether a host belongs to a different site than the scanned one
+ */
+export const isThirdPartyHost = (host: string, siteUrl: string): boolean => {
+  return getRegistrableDomain(host) !== getRegistrableDomain(new URL(siteUrl).hostname);
+};
+
+const matchesHost = (host: string, candidates: string[]): boolean => {
+  const normalized = host.toLowerCase().replace(/^\./, '');
+  return candidates.some(candidate => normalized === candidate || normalized.endsWith(`.${candidate}`));
+};
+
+export const isTrackingHost = (host: string): boolean => matchesHost(host, TRACKING_HOSTS) || isTrackingVendorHost(host);
+
+const isTrackingIdentifier = (name: string): boolean => {
+  return TRACKING_COOKIE_NAMES.includes(name) || TRACKING_COOKIE_PREFIXES.some(prefix => name.startsWith(prefix));
+};
+
+export const isTrackingCookie = (name: string, domain: string): boolean => {
+  return isTrackingIdentifier(name) || isTrackingHost(domain);
+};
+
+/**
+ * Lists the distinct hosts contacted by a set of requests
+ */
+export const getDistinctHosts = (requests: ObservedRequest[], trackingOnly = false): string[] => {
+  return Array.from(new Set(
+    requests.filter(request => !trackingOnly || request.tracking).map(request => request.host)
+  ));
+};
+
+/**
+ * Starts recording every third-party request made by a page.
+ * Must be called before the first navigation so that nothing is missed.
+ */
+export const startNetworkCapture = (page: Page, siteUrl: string): NetworkCapture => {
+  const requests: ObservedRequest[] = [];
+
+  const onRequest = (request: Request) => {
+    let host: string;
+    try {
+      const requestUrl = new URL(request.url());
+      if (!['http:', 'https:'].includes(requestUrl.protocol)) return;
+      host = requestUrl.hostname;
+    } catch (e) {
+      return;
+    }
+
+    if (!isThirdPartyHost(host, siteUrl)) return;
+
+    requests.push({
+      url: request.url(),
+      host,
+      resourceType: request.resourceType(),
+      tracking: isTrackingHost(host)
+    });
+  };
+
+  page.on('request', onRequest);
+
+  return {
+    requests,
+    stop: () => page.off('request', onRequest)
+  };
+};
+
+/**
+ * Reads the cookies currently stored in a browser context
+ */
+export const collectCookies = async (context: BrowserContext, siteUrl: string): Promise<ObservedCookie[]> => {
+  const cookies = await context.cookies();
+
+  return cookies.map(cookie => {
+    const thirdParty = isThirdPartyHost(cookie.domain, siteUrl);
+    return {
+      name: cookie.name,
+      domain: cookie.domain,
+      path: cookie.path,
+      expires: cookie.expires,
+      secure: cookie.secure,
+      httpOnly: cookie.httpOnly,
+      sameSite: cookie.sameSite,
+      thirdParty,
+      tracking: thirdParty || isTrackingCookie(cookie.name, cookie.domain)
+    };
+  });
+};
+
+/**
+ * Reads the localStorage keys of the page's origin
+ */
+export const collectLocalStorageKeys = async (page: Page): Promise<string[]> => {
+  try {
+    return await page.evaluate(() => Object.keys(window.localStorage));
+  } catch (error) {
+    // Storage can be unavailable (sandboxed frames, opaque origins)
+    return [];
+  }
+};
+
+/**
+ * Waits for tag managers to fire, then snapshots cookies, storage and third-party requests.
+ * Only requests captured after `sinceRequest` are included.
+ */
+export const collectTrackingSnapshot = async (
+  page: Page,
+  siteUrl: string,
+  capture: NetworkCapture,
+  sinceRequest = 0
+): Promise<TrackingSnapshot> => {
+  // Give tag managers a moment to fire without waiting indefinitely for network idle
+  await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {});
+
+  return {
+    cookies: await collectCookies(page.context(), siteUrl),
+    localStorageKeys: await collectLocalStorageKeys(page),
+    thirdPartyRequests: capture.requests.slice(sinceRequest)
+  };
+};
+
+/**
+ * Turns what was observed before any banner interaction into a finding (ePrivacy Directive Art. 5(3)).
+ * The snapshot must come from a page on which nothing has been clicked.
+ */
+export const evaluatePreConsentTracking = (snapshot: TrackingSnapshot): PreConsentTracking => {
+  const { cookies, localStorageKeys, thirdPartyRequests } = snapshot;
+  const issues: ComplianceIssue[] = [];
+
+  const trackingCookies = cookies.filter(cookie => cookie.tracking);
+  if (trackingCookies.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2',
+      ruleName: 'Tracking cookies set before consent',
+      severity: 'high',
+      description: `${trackingCookies.length} analytics or advertising cookie(s) were set before any consent was given: ${trackingCookies.map(cookie => cookie.name).slice(0, 10).join(', ')}`,
+      recommendation: 'Block non-essential cookies until the visitor has opted in through the consent banner'
+    });
+  }
+
+  const trackingHosts = getDistinctHosts(thirdPartyRequests, true);
+  if (trackingHosts.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-requests',
+      ruleName: 'Trackers loaded before consent',
+      severity: 'high',
+      description: `Requests were sent to known tracking services before consent: ${trackingHosts.slice(0, 10).join(', ')}`,
+      recommendation: 'Load analytics and advertising tags only after consent, for example through your tag manager\'s consent mode'
+    });
+  }
+
+  const trackingStorageKeys = localStorageKeys.filter(isTrackingIdentifier);
+  if (trackingStorageKeys.length > 0) {
+    issues.push({
+      ruleId: 'eprivacy-2-storage',
+      ruleName: 'Tracking identifiers stored before consent',
+      severity: 'medium',
+      description: `localStorage entries associated with tracking were written before consent: ${trackingStorageKeys.join(', ')}`,
+      recommendation: 'ePrivacy consent rules apply to any storage on the device, not only cookies. Defer these writes until consent'
+    });
+  }
+
+  return {
+    cookies,
+    localStorageKeys,
+    thirdPartyRequests,
+    compliant: !issues.some(issue => issue.severity === 'high'),
+    issues
+  };
+};
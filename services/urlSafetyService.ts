@@ -0,0 +1,226 @@
+import type { BrowserContext, Request, Route } from 'playwright';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { lookup } from 'dns';
+import { promisify } from 'util';
+
+const lookupAsync = promisify(lookup);
+
+// Redirects followed per request, by the HTTP client and by the browser alike
+export const MAX_REDIRECTS = 5;
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// Ports a scanned site may be served on, an empty port being the protocol's default
+const ALLOWED_PORTS = (process.env.SCAN_ALLOWED_PORTS || '80,443')
+  .split(',')
+  .map(port => Number(port.trim()))
+  .filter(Boolean);
+
+// Optional allowlist of the domains this deployment may scan, subdomains included
+const ALLOWED_DOMAINS = (process.env.SCAN_ALLOWED_DOMAINS || '')
+  .split(',')
+  .map(domain => domain.trim().toLowerCase().replace(/^\*?\./, ''))
+  .filter(Boolean);
+
+/**
+ * Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges.
+ * IPv4-mapped IPv6 addresses are matched against the IPv4 ranges.
+ */
+const buildBlockedRanges = (): BlockList => {
+  const blocked = new BlockList();
+  const ipv4: [string, number][] = [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+  ];
+  const ipv6: [string, number][] = [
+    ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+  ];
+  ipv4.forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv4'));
+  ipv6.forEach(([network, prefix]) => blocked.addSubnet(network, prefix, 'ipv6'));
+  return blocked;
+};
+
+const BLOCKED_RANGES = buildBlockedRanges();
+
+/**
+ * Whether an IP address belongs to a network that scans must never reach
+ */
+export const isBlockedAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (!family) return true;
+  return BLOCKED_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+};
+
+/**
+ * Whether scans may connect to a port, the protocols' defaults included
+ */
+export const isAllowedPort = (port: number): boolean => ALLOWED_PORTS.includes(port);
+
+/**
+ * Checks the parts of a URL that need no DNS lookup: protocol, port and literal IP addresses
+ */
+const checkUrlSyntax = (url: URL): string | null => {
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    return `the ${url.protocol} protocol is not allowed`;
+  }
+  if (url.port && !isAllowedPort(Number(url.port))) {
+    return `port ${url.port} is not allowed`;
+  }
+
+  // IPv6 hosts are bracketed in URLs
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    return `${host} is a private or reserved address`;
+  }
+  return null;
+};
+
+/**
+ * Checks that a URL is safe to load from the server: an allowed protocol and port, and a host
+ * that only resolves to public addresses. Returns the reason it is unsafe, or null.
+ */
+export const checkUrlSafety = async (url: string): Promise<string | null> => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return 'the URL is invalid';
+  }
+
+  const syntaxError = checkUrlSyntax(parsed);
+  if (syntaxError) return syntaxError;
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host)) return null;
+
+  try {
+    const addresses = await lookupAsync(host, { all: true });
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) return `${host} resolves to the private or reserved address ${blocked.address}`;
+  } catch (e) {
+    return `${host} could not be resolved`;
+  }
+  return null;
+};
+
+/**
+ * Whether a host is covered by the deployment's domain allowlist, which allows every host when empty
+ */
+const isAllowedDomain = (hostname: string): boolean => {
+  if (!ALLOWED_DOMAINS.length) return true;
+  const host = hostname.toLowerCase();
+  return ALLOWED_DOMAINS.some(domain => host === domain || host.endsWith(`.${domain}`));
+};
+
+/**
+ * Checks a URL submitted for analysis: the deployment's allowlist on top of the URL safety rules.
+ * Returns the reason it can't be scanned, or null.
+ */
+export const checkScanTarget = async (url: string): Promise<string | null> => {
+  try {
+    if (!isAllowedDomain(new URL(url).hostname)) {
+      return 'this domain is not in the list of domains allowed to be scanned';
+    }
+  } catch (e) {
+    return 'the URL is invalid';
+  }
+  return await checkUrlSafety(url);
+};
+
+/**
+ * Throws when a URL is unsafe to load from the server
+ */
+export const assertSafeUrl = async (url: string): Promise<void> => {
+  const reason = await checkUrlSafety(url);
+  if (reason) {
+    throw new Error(`Refusing to load ${url}: ${reason}`);
+  }
+};
+
+/**
+ * DNS lookup for HTTP agents that refuses private and reserved addresses. Checking the address the
+ * socket actually connects to means a host can't pass the URL check, then resolve elsewhere.
+ */
+export const safeLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (!addresses.length) {
+      return callback(Object.assign(new Error(`${hostname} has no address`), { code: 'ENOTFOUND' }), '', 0);
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to the private or reserved address ${blocked.address}`), '', 0);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Counts the redirects that led to a request
+ */
+const countRedirects = (request: Request): number => {
+  let count = 0;
+  for (let previous = request.redirectedFrom(); previous; previous = previous.redirectedFrom()) count++;
+  return count;
+};
+
+/**
+ * Guards every request of a browser context: requests to unsafe URLs are aborted, whether they are
+ * navigations, sub-navigations or the page's own resources. Playwright doesn't route the hops of a
+ * redirect, and Chromium resolves hosts again after they were checked here: both are stopped before
+ * anything is sent by the egress proxy the browsers connect through, which resolves hosts with safeLookup.
+ * A page whose navigation is redirected to an unsafe URL, or too often, is also closed.
+ */
+export const protectContext = async (context: BrowserContext): Promise<void> => {
+  // Pages load many resources from the same hosts, each is resolved once per context
+  const hostChecks = new Map<string, Promise<string | null>>();
+  const checkRequestUrl = (url: string): Promise<string | null> => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (e) {
+      return Promise.resolve('the URL is invalid');
+    }
+    // Inline resources never reach the network
+    if (parsed.protocol === 'data:' || parsed.protocol === 'blob:') return Promise.resolve(null);
+
+    const key = `${parsed.protocol}//${parsed.host}`;
+    let check = hostChecks.get(key);
+    if (!check) {
+      check = checkUrlSafety(key);
+      hostChecks.set(key, check);
+    }
+    return check;
+  };
+
+  await context.route('**/*', async (route: Route) => {
+    const url = route.request().url();
+    const reason = await checkRequestUrl(url);
+    if (reason) {
+      console.error(`Blocked request to ${url}: ${reason}`);
+      await route.abort('blockedbyclient').catch(() => {});
+      return;
+    }
+    await route.continue().catch(() => {});
+  });
+
+  context.on('request', request => {
+    // Service worker requests have no frame, and are routed like any other request
+    if (!request.redirectedFrom() || request.serviceWorker()) return;
+
+    const page = request.frame().page();
+    if (request.isNavigationRequest() && countRedirects(request) > MAX_REDIRECTS) {
+      console.error(`Too many redirects loading ${request.url()}, closing the page`);
+      page.close().catch(() => {});
+      return;
+    }
+    checkRequestUrl(request.url()).then(reason => {
+      if (!reason) return;
+      console.error(`Redirected to unsafe URL ${request.url()}: ${reason}, closing the page`);
+      page.close().catch(() => {});
+    });
+  });
+};
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import trackerDatabase from '@/lib/tracker-database.json';
+import { ConsentState, ObservedRequest, TrackerVendor, VendorInventory, VendorInventoryEntry } from '@/types';
+
+interface TrackerDatabase {
+  version: string;
+  vendors: TrackerVendor[];
+}
+
+// Categories whose vendors track visitors wherever they are loaded, unlike error and performance monitoring
+const TRACKING_CATEGORIES = ['analytics', 'advertising'];
+
+/**
+ * Loads the bundled tracker database, updated by a newer copy at TRACKER_DATABASE_PATH when set.
+ * Vendors of the newer copy replace the bundled vendors of the same name.
+ */
+const loadTrackerDatabase = (): TrackerDatabase => {
+  const bundled = trackerDatabase as TrackerDatabase;
+  const path = process.env.TRACKER_DATABASE_PATH;
+  if (!path) return bundled;
+
+  try {
+    const update = JSON.parse(readFileSync(path, 'utf8')) as TrackerDatabase;
+    const names = new Set(update.vendors.map(vendor => vendor.name));
+    return {
+      version: update.version || bundled.version,
+      vendors: [...update.vendors, ...bundled.vendors.filter(vendor => !names.has(vendor.name))]
+    };
+  } catch (error) {
+    console.error(`Error loading the tracker database at ${path}, using the bundled one:`, error);
+    return bundled;
+  }
+};
+
+const DATABASE = loadTrackerDatabase();
+
+// Every domain of the database with its vendor, the most specific domains first
+const DOMAIN_INDEX = DATABASE.vendors
+  .flatMap(vendor => vendor.domains.map(domain => ({ domain: domain.toLowerCase(), vendor })))
+  .sort((a, b) => b.domain.length - a.domain.length);
+
+/**
+ * Finds the vendor serving a host. The most specific domain wins, so that "snap.licdn.com"
+ * is attributed to the LinkedIn Insight Tag rather than to LinkedIn's CDN.
+ */
+export const classifyHost = (host: string): TrackerVendor | null => {
+  const normalized = host.toLowerCase().replace(/^\./, '');
+  const match = DOMAIN_INDEX.find(({ domain }) => normalized === domain || normalized.endsWith(`.${domain}`));
+  return match ? match.vendor : null;
+};
+
+export const isTrackingVendorHost = (host: string): boolean => {
+  const vendor = classifyHost(host);
+  return vendor !== null && TRACKING_CATEGORIES.includes(vendor.category);
+};
+
+/**
+ * Groups the third-party requests seen in each consent state by vendor.
+ * Hosts missing from the database are listed on their own, as unknown vendors.
+ */
+export const buildVendorInventory = (requestsByState: { state: ConsentState; requests: ObservedRequest[] }[]): VendorInventory => {
+  const entries = new Map<string, VendorInventoryEntry>();
+
+  requestsByState.forEach(({ state, requests }) => {
+    requests.forEach(request => {
+      const vendor = classifyHost(request.host);
+      const key = vendor ? vendor.name : request.host;
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = vendor
+          ? { vendor: vendor.name, company: vendor.company, category: vendor.category, country: vendor.country, hosts: [], requestCount: 0, states: [] }
+          : { vendor: null, category: 'unknown', country: null, hosts: [], requestCount: 0, states: [] };
+        entries.set(key, entry);
+      }
+
+      entry.requestCount++;
+      if (!entry.hosts.includes(request.host)) entry.hosts.push(request.host);
+      if (!entry.states.includes(state)) entry.states.push(state);
+    });
+  });
+
+  // Known vendors first, the busiest at the top
+  const vendors = Array.from(entries.values()).sort((a, b) => {
+    if (!a.vendor !== !b.vendor) return a.vendor ? -1 : 1;
+    return b.requestCount - a.requestCount;
+  });
+
+  return { databaseVersion: DATABASE.version, vendors };
+};
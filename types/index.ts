@@ -1,3 +1,5 @@
+import type documentTypes from '@/lib/document-types.json';
+
 // Compliance Rule Types
 export interface ComplianceRule {
   id: string;
@@ -16,21 +18,508 @@ export interface ComplianceIssue {
   recommendation: string;
 }
 
+// Compliance documents looked for on every site, the keys of lib/document-types.json
+export type DocumentType = keyof typeof documentTypes;
+
+export interface DocumentTypeDefinition {
+  key: DocumentType;
+  title: string;
+  name: string; // lowercase, for log messages and prompts
+  description: string; // what the document is and which law requires it, shown with its analysis
+  keyAreas: string; // what the analysis prompt focuses on
+  required: boolean; // expected on every site: missing required documents trigger the deeper discovery
+  paths: string[]; // well-known paths probed when the document isn't linked
+}
+
+// How the URL of a compliance document was found
+export type DiscoveryMethod = 'homepage-link' | 'legal-page-link' | 'robots-sitemap' | 'sitemap' | 'well-known-path';
+
+// The format a compliance document was published in
+export type DocumentFormat = 'html' | 'pdf';
+
+// Whether a document's text is verbatim or was extracted by the LLM fallback
+export type ExtractionMethod = 'structured' | 'llm';
+
+// How pages were fetched: rendered in headless Chromium, or downloaded as static HTML
+export type FetcherName = 'playwright' | 'static';
+
+export interface DocumentHeading {
+  level: number; // 1-6
+  text: string;
+}
+
 export interface SectionAnalysis {
   sectionName: string;
   sectionText: string;
   compliant: boolean;
   score: number; // 0-100
   issues: ComplianceIssue[];
+  sourceUrl?: string;
+  discoveryMethod?: DiscoveryMethod;
+  sourceFormat?: DocumentFormat;
+  extractionMethod?: ExtractionMethod;
+  outline?: DocumentHeading[];
+}
+
+// Tracking Observation Types
+export interface ObservedCookie {
+  name: string;
+  domain: string;
+  path: string;
+  expires: number; // Unix timestamp in seconds, -1 for session cookies
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite: 'Strict' | 'Lax' | 'None';
+  thirdParty: boolean;
+  tracking: boolean;
+}
+
+export interface ObservedRequest {
+  url: string;
+  host: string;
+  resourceType: string;
+  tracking: boolean;
+}
+
+export interface PreConsentTracking {
+  cookies: ObservedCookie[];
+  localStorageKeys: string[];
+  thirdPartyRequests: ObservedRequest[];
+  compliant: boolean;
+  issues: ComplianceIssue[];
+}
+
+// Consent Scan Types
+export type ConsentState = 'none' | 'reject' | 'accept';
+
+export interface ConsentStateObservation {
+  state: ConsentState;
+  buttonFound: boolean; // always true for the 'none' state
+  buttonText?: string;
+  cookies: ObservedCookie[];
+  thirdPartyHosts: string[];
+  trackingHosts: string[];
+}
+
+export interface ConsentScanResult {
+  states: ConsentStateObservation[];
+  trackingCookiesAfterReject: string[];
+  trackingHostsAfterReject: string[];
+  cookiesAddedByAccept: string[];
+  hostsAddedByAccept: string[];
+  compliant: boolean;
+  issues: ComplianceIssue[];
+}
+
+// IAB Transparency and Consent Framework Types
+export type TcfSource = 'api' | 'cookie' | 'localStorage';
+
+export interface TcfConsent {
+  version: number;
+  created: string;
+  lastUpdated: string;
+  cmpId: number;
+  cmpVersion: number;
+  consentLanguage: string;
+  vendorListVersion: number;
+  policyVersion: number;
+  isServiceSpecific: boolean;
+  publisherCountry: string;
+  specialFeatureOptIns: number[];
+  purposeConsents: number[];
+  purposeLegitimateInterests: number[];
+  vendorConsents: number[];
+  vendorLegitimateInterests: number[];
+}
+
+export interface TcfStateObservation {
+  state: ConsentState;
+  apiFound: boolean; // whether the page exposes __tcfapi
+  source: TcfSource | null; // where the TC string was read, null when there was none
+  tcString: string | null;
+  consent: TcfConsent | null;
+  error?: string; // why the TC string couldn't be decoded
+}
+
+export interface TcfAnalysis {
+  states: TcfStateObservation[];
+  compliant: boolean;
+  issues: ComplianceIssue[];
+}
+
+// Storage Access Types
+export type StorageApi = 'localStorage' | 'sessionStorage' | 'indexedDB' | 'serviceWorker' | 'canvas' | 'webgl' | 'audio';
+
+export interface StorageAccess {
+  api: StorageApi;
+  operation: string; // the method called, such as 'setItem', 'open', 'register' or 'toDataURL'
+  key?: string; // storage key, database name, worker script, WebGL parameter or canvas size
+  scriptUrl: string | null; // the script that made the call, null for inline code that can't be told apart
+  scriptOrigin: string | null;
+  thirdParty: boolean;
+  fingerprinting: boolean;
+  state: ConsentState;
+  count: number; // calls made, counted up to 100
+}
+
+export interface StorageAccessReport {
+  accesses: StorageAccess[];
+  compliant: boolean;
+  issues: ComplianceIssue[];
+}
+
+// Cookie Declaration Types
+export interface DeclaredCookie {
+  name: string; // as written in the cookie policy, possibly a pattern such as "_ga_*"
+  provider?: string;
+  purpose?: string;
+  duration?: string; // as written in the cookie policy
+  durationSeconds: number | null; // 0 for session cookies, null when the duration can't be read
+}
+
+export interface CookieLifetimeFinding {
+  name: string;
+  domain: string;
+  lifetimeSeconds: number; // 0 for session cookies
+  declaredDuration?: string;
+  exceedsDeclared: boolean;
+  exceedsCap: boolean; // over the 13 months recommended by the CNIL
+}
+
+export interface CookieDeclarationDetails {
+  declared: DeclaredCookie[];
+  undeclared: ObservedCookie[];
+  absent: string[]; // declared names no observed cookie matches
+  lifetimes: CookieLifetimeFinding[]; // only the cookies outliving their declared duration or the cap
+}
+
+export interface CookieDeclarationAnalysis extends SectionAnalysis {
+  details: CookieDeclarationDetails;
+}
+
+// Accessibility Types
+export type WcagLevel = 'A' | 'AA';
+
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
+export interface AccessibilityViolation {
+  ruleId: string; // axe rule, or keyboard check
+  description: string;
+  impact: AccessibilityImpact;
+  nodeCount: number;
+  targets: string[]; // selectors of the first failing elements
+  helpUrl?: string;
+}
+
+export interface WcagCriterionFinding {
+  criterion: string; // success criterion number, such as "1.4.3", or "landmarks" for the landmark best practices
+  name: string;
+  level: WcagLevel | null;
+  violations: AccessibilityViolation[];
+}
+
+export interface KeyboardFocusCheck {
+  focusableCount: number;
+  tabStops: number; // distinct elements reached with Tab
+  trap: string | null; // element the focus got stuck on
+  withoutIndicator: string[]; // focused elements without a visible outline or shadow
+}
+
+export interface AccessibilityDetails {
+  pageUrl: string;
+  engine: string;
+  criteria: WcagCriterionFinding[];
+  keyboard: KeyboardFocusCheck;
+  statementFound: boolean;
+  statementUrl?: string;
+}
+
+export interface AccessibilityAnalysis extends SectionAnalysis {
+  details: AccessibilityDetails;
+}
+
+// Evidence Types
+export type EvidenceKind = 'screenshot' | 'har' | 'html' | 'pdf';
+
+export interface EvidenceFile {
+  name: string;
+  kind: EvidenceKind;
+  description: string;
+  url: string; // page the file was captured from
+  capturedAt: string;
+  sha256: string;
+  size: number; // bytes
+}
+
+export interface EvidenceBundle {
+  id: string;
+  createdAt: string;
+  files: EvidenceFile[];
+  downloadUrl: string; // .tar.gz archive of the files and their manifest
+}
+
+// Scan Profile Types
+export type DeviceType = 'desktop' | 'mobile';
+
+export interface ScanProfile {
+  id: string;
+  name: string;
+  locale: string;
+  timezoneId: string;
+  acceptLanguage: string;
+  geolocation: { latitude: number; longitude: number };
+  device: DeviceType;
+  viewport: { width: number; height: number };
+}
+
+export interface ProfileScanSummary {
+  profileId: string;
+  profileName: string;
+  bannerFound: boolean;
+  cmp: string | null;
+  acceptFound: boolean;
+  rejectFound: boolean;
+  cookiesBeforeConsent: string[];
+  trackingHostsBeforeConsent: string[];
+  trackingHostsAfterReject: string[];
+  compliant: boolean; // no high severity consent finding
+  error?: string;
+}
+
+export interface ProfileComparison {
+  profiles: ProfileScanSummary[]; // the scan's own profile first
+  differences: string[];
+}
+
+// Site Crawl Types
+export interface CrawlSettings {
+  maxDepth: number; // links followed from the homepage, 0 only visits the homepage
+  maxPages: number; // pages visited at most, the homepage included; 0 disables the crawl
+  include: string[]; // glob patterns, a URL must contain one of them when any is given
+  exclude: string[]; // glob patterns, URLs containing one of them are skipped
+  concurrency: number; // pages loaded at the same time
+}
+
+export interface CrawledPage {
+  url: string;
+  depth: number;
+  error?: string;
+  formCount: number;
+  cookies: string[]; // cookies first seen after this page loaded
+  trackingHosts: string[];
+}
+
+export interface CrawlCookie extends ObservedCookie {
+  firstSeenOn: string;
+}
+
+export interface CrawlHost {
+  host: string;
+  tracking: boolean;
+  pages: string[];
+}
+
+export interface CrawlReport {
+  settings: CrawlSettings;
+  networkObserved: boolean; // false when pages were read as static HTML, without cookies or requests
+  pages: CrawledPage[];
+  cookies: CrawlCookie[];
+  thirdPartyHosts: CrawlHost[];
+  compliant: boolean;
+  issues: ComplianceIssue[];
+}
+
+// Login Types
+// Values typed into the site only ever come from server-side secrets, named by `secret`
+export type LoginStep =
+  | { action: 'navigate'; url: string }
+  | { action: 'fill'; selector: string; secret: string }
+  | { action: 'click'; selector: string }
+  | { action: 'waitFor'; selector?: string; url?: string; timeout?: number }; // url is a glob, such as **/account/**
+
+export interface LoginReport {
+  steps: number;
+  completedSteps: number;
+  succeeded: boolean;
+  landingUrl: string | null; // where the script ended, crawled along with the homepage; null when it carries a secret
+  error?: string;
+}
+
+// Security Types
+export interface TlsCertificate {
+  protocol: string | null;
+  subjectName: string | null;
+  issuer: string | null;
+  validFrom: string | null; // ISO date
+  validTo: string | null; // ISO date
+  authorized: boolean | null; // whether the certificate is trusted for the host, null when unknown
+  error: string | null; // why it isn't, such as CERT_HAS_EXPIRED or ERR_TLS_CERT_ALTNAME_INVALID
+}
+
+export interface SecurityHeaderCheck {
+  header: string;
+  value: string | null;
+  ok: boolean;
+}
+
+export interface CookieSecurityFinding {
+  name: string;
+  domain: string;
+  missing: ('Secure' | 'HttpOnly' | 'SameSite')[];
+}
+
+export interface SecurityDetails {
+  finalUrl: string;
+  httpsRedirect: boolean | null; // null when the site doesn't answer over plain HTTP
+  headers: SecurityHeaderCheck[];
+  tls: TlsCertificate | null;
+  mixedContent: string[];
+  cookies: CookieSecurityFinding[];
+}
+
+export interface SecurityAnalysis extends SectionAnalysis {
+  details: SecurityDetails;
+}
+
+// Form Audit Types
+export type FormPurpose = 'signup' | 'newsletter' | 'contact' | 'other';
+
+export type PersonalDataCategory = 'email' | 'name' | 'phone' | 'address' | 'birthDate' | 'payment' | 'password';
+
+export interface FormConsentCheckbox {
+  label: string;
+  preChecked: boolean;
+  required: boolean;
+  marketing: boolean;
+  bundled: boolean; // marketing consent combined with the terms or privacy policy, or made mandatory
+}
+
+export interface FormAudit {
+  pageUrl: string;
+  action: string;
+  method: string;
+  purpose: FormPurpose;
+  personalData: PersonalDataCategory[];
+  checkboxes: FormConsentCheckbox[];
+  privacyLinkNearby: boolean;
+  recipient: string | null; // host of a third-party form action
+  recipientVendor?: string;
+  insecure: boolean; // submitted over plain HTTP
+}
+
+export interface FormsDetails {
+  pagesScanned: string[];
+  forms: FormAudit[];
+}
+
+export interface FormsAnalysis extends SectionAnalysis {
+  details: FormsDetails;
+}
+
+// Vendor Inventory Types
+export type VendorCategory =
+  | 'analytics' | 'advertising' | 'social' | 'cdn' | 'tag-manager' | 'consent' | 'support' | 'media' | 'payments' | 'monitoring' | 'other';
+
+export interface TrackerVendor {
+  name: string;
+  company: string;
+  category: VendorCategory;
+  country: string; // ISO 3166-1 alpha-2 code of the company's headquarters, or of the region its domains serve
+  domains: string[];
+}
+
+export interface VendorInventoryEntry {
+  vendor: string | null; // null for hosts missing from the tracker database
+  company?: string;
+  category: VendorCategory | 'unknown';
+  country: string | null;
+  hosts: string[];
+  requestCount: number;
+  states: ConsentState[]; // consent states in which the vendor was contacted
+}
+
+export interface VendorInventory {
+  databaseVersion: string;
+  vendors: VendorInventoryEntry[];
+}
+
+// International Transfer Types
+// 'framework': adequate only for recipients certified under a framework, the EU-US Data Privacy Framework
+export type TransferStatus = 'eea' | 'adequate' | 'framework' | 'none' | 'unknown';
+
+export type TransferSafeguard = 'scc' | 'adequacy' | 'dpf' | 'bcr';
+
+export interface TransferRecipient {
+  vendor: string; // the host for vendors missing from the tracker database
+  hosts: string[];
+  country: string | null;
+  status: TransferStatus;
+}
+
+export interface TransferSafeguardMention {
+  safeguard: TransferSafeguard;
+  excerpt: string; // the privacy policy's sentence mentioning it
+}
+
+export interface DataTransferDetails {
+  recipients: TransferRecipient[];
+  safeguards: TransferSafeguardMention[];
+  policyAvailable: boolean;
+  policyMentionsTransfers: boolean;
+}
+
+export interface DataTransferAnalysis extends SectionAnalysis {
+  details: DataTransferDetails;
+}
+
+// Consent Banner Types
+export type ConsentButtonRole = 'accept' | 'reject' | 'settings' | 'other';
+
+export interface ConsentBannerButton {
+  text: string;
+  role: ConsentButtonRole;
+  width: number;
+  height: number;
+  fontSize: number;
+  color: string;
+  backgroundColor: string;
+  textContrast: number; // WCAG contrast ratio between the label and the button background
+  backgroundContrast: number; // contrast ratio between the button and the banner background
+  isLink: boolean;
+}
+
+export interface ConsentBannerDetails {
+  cmp: string; // name of the detected consent management platform, or 'unknown'
+  hasFirstLayerReject: boolean;
+  buttons: ConsentBannerButton[];
+  preTickedPurposes: string[];
+}
+
+export interface ConsentBannerAnalysis extends SectionAnalysis {
+  details: ConsentBannerDetails;
 }
 
 export interface AnalysisResult {
   url: string;
   timestamp: string;
   overallScore: number; // 0-100
-  sections: {
-    termsOfService?: SectionAnalysis;
-    privacyPolicy?: SectionAnalysis;
-    cookiePolicy?: SectionAnalysis;
+  fetcher?: FetcherName;
+  profile?: ScanProfile;
+  profileComparison?: ProfileComparison;
+  preConsentTracking?: PreConsentTracking;
+  consentScan?: ConsentScanResult;
+  vendorInventory?: VendorInventory;
+  storageAccess?: StorageAccessReport;
+  tcf?: TcfAnalysis;
+  evidence?: EvidenceBundle;
+  crawl?: CrawlReport;
+  login?: LoginReport;
+  sections: Partial<Record<DocumentType, SectionAnalysis>> & {
+    consentBanner?: ConsentBannerAnalysis;
+    internationalTransfers?: DataTransferAnalysis;
+    cookieDeclaration?: CookieDeclarationAnalysis;
+    forms?: FormsAnalysis;
+    security?: SecurityAnalysis;
+    accessibility?: AccessibilityAnalysis;
   };
 } 
\ No newline at end of file